@@ -19,30 +19,168 @@
  * https://ditty.ir/posts/adapter-design-pattern/JmRx5
  */
 
+/**
+ * The channels through which the users can be notified.
+ */
+type Channel = 'sms' | 'email' | 'push';
+
+/**
+ * A user to be notified, with the address of each channel they have, and the
+ * channels they would like to be notified through, in order of preference.
+ */
+interface Recipient {
+  name: string;
+  phone?: string;
+  email?: string;
+  deviceToken?: string;
+  channels: Channel[];
+}
+
+interface Message {
+  subject: string;
+  body: string;
+}
+
+/**
+ * A successful delivery. Decorated notifiers (retries, failover) can take
+ * several attempts and channels to deliver, so they record the channel that
+ * finally delivered, the number of attempts and the errors on the way.
+ */
+interface Delivery {
+  channel: Channel;
+  attempts: number;
+  errors: DeliveryError[];
+}
+
+/**
+ * What happened to a notification on a single channel.
+ */
+interface DeliveryResult {
+  channel: Channel;
+  delivered: boolean;
+  delivery?: Delivery;
+  error?: DeliveryError;
+}
+
+/**
+ * The base of the errors that the notifiers fail with. A retryable error is a
+ * temporary one that may not happen again.
+ */
+class DeliveryError extends Error {
+  constructor(
+    public readonly channel: Channel,
+    message: string,
+    public readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+/**
+ * The recipient has no address on the channel. Retrying will not help.
+ */
+class MissingAddressError extends DeliveryError {
+  constructor(channel: Channel, recipient: Recipient) {
+    super(channel, `${recipient.name} has no ${channel} address`, false);
+    this.name = 'MissingAddressError';
+  }
+}
+
+/**
+ * The external service failed. The original error is kept as the cause.
+ */
+class ServiceError extends DeliveryError {
+  constructor(channel: Channel, public readonly cause: unknown) {
+    super(channel, `The ${channel} service failed: ${cause instanceof Error ? cause.message : cause}`, true);
+    this.name = 'ServiceError';
+  }
+}
+
+/**
+ * A notifier was retried and failed every time. It keeps the number of
+ * attempts and all of their errors, the last one being the reason to give up.
+ */
+class RetriesExhaustedError extends DeliveryError {
+  constructor(channel: Channel, public readonly attempts: number, public readonly errors: DeliveryError[]) {
+    super(channel, `Gave up on ${channel} after ${attempts} attempts: ${errors[errors.length - 1].message}`, false);
+    this.name = 'RetriesExhaustedError';
+  }
+}
+
 /**
  * Adapter Interface.
  * This interface defines a method that will be used by the client in order to
  * work with the service.
+ * Sending is asynchronous, and a failed send rejects with a DeliveryError.
  */
 interface Notification {
-  send(): void;
+  readonly channel: Channel;
+
+  send(recipient: Recipient, message: Message): Promise<Delivery>;
 }
 
+/**
+ * Time goes through a clock, so tests can pass a clock that does not really
+ * wait, or that jumps forward.
+ */
+interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+/**
+ * Thrown by the XYZ service below when its session has expired.
+ */
+class XyzSessionExpired extends Error {}
+
 /**
  * An External Service (Adaptee)
  * This service lets us send notifications to users via SMS. But its interface
  * is not compatible with the client code. In many cases modifying external
  * libraries is not possible. We might be able to change client code but what if
  * client code wants to work with another service? It is always prone to change.
+ * Its sessions expire an hour after logging in.
  */
 class XYZ_SMS {
-  login() {}
-  setPort() {}
-  sendSms() {
-    console.log('Sending SMS');
+  private expiresAt = 0;
+
+  login(username: string, password: string): { expiresIn: number } {
+    console.log('Logging in to XYZ');
+    this.expiresAt = Date.now() + 3600 * 1000;
+
+    return { expiresIn: 3600 };
+  }
+  setPort(port: number) {}
+  sendSms(phone: string, text: string) {
+    if (Date.now() >= this.expiresAt) {
+      throw new XyzSessionExpired('Session expired');
+    }
+
+    console.log(`Sending SMS to ${phone}: ${text}`);
   }
 }
 
+/**
+ * The outcome of sending several messages at once. A batch does not stop at
+ * the first failure, so the failed messages are reported next to the count of
+ * the delivered ones.
+ */
+interface BatchItem {
+  recipient: Recipient;
+  message: Message;
+}
+
+interface BatchResult {
+  delivered: number;
+  failed: Array<BatchItem & { error: DeliveryError }>;
+}
+
 /**
  * Concrete Adapter.
  * An Adapter for an external library. This class implements Adapter interface
@@ -52,25 +190,426 @@ class XYZ_SMS {
  * to the client and the client will work with the service through its interface.
  */
 class XyzSmsAdapter implements Notification {
+  public readonly channel = 'sms';
   private service: XYZ_SMS;
 
+  /**
+   * Logging in is expensive, so the session is kept and shared by the sends
+   * until it expires.
+   */
+  private sessionExpiresAt: number = null;
+
   // Adapter wraps the service
-  constructor(service: XYZ_SMS) {
+  constructor(service: XYZ_SMS, private clock: Clock = systemClock) {
     this.service = service;
   }
 
-  // Adapter directly works with the service
-  public send() {
-    this.service.login();
-    this.service.setPort();
-    this.service.sendSms();
+  // Adapter directly works with the service and translates our message into
+  // the arguments it expects. The errors of the service are translated too.
+  public async send(recipient: Recipient, message: Message): Promise<Delivery> {
+    if (!recipient.phone) {
+      throw new MissingAddressError(this.channel, recipient);
+    }
+
+    try {
+      this.connect();
+      this.deliver(recipient, message);
+    } catch (error) {
+      throw new ServiceError(this.channel, error);
+    }
+
+    return { channel: this.channel, attempts: 1, errors: [] };
+  }
+
+  /**
+   * Sends all the messages over a single session. The failure of a message
+   * does not stop the others.
+   */
+  public async sendBatch(items: BatchItem[]): Promise<BatchResult> {
+    const result: BatchResult = { delivered: 0, failed: [] };
+
+    try {
+      this.connect();
+    } catch (error) {
+      const failure = new ServiceError(this.channel, error);
+      result.failed = items.map(item => ({ ...item, error: failure }));
+
+      return result;
+    }
+
+    for (const item of items) {
+      if (!item.recipient.phone) {
+        result.failed.push({ ...item, error: new MissingAddressError(this.channel, item.recipient) });
+        continue;
+      }
+
+      try {
+        this.deliver(item.recipient, item.message);
+        result.delivered++;
+      } catch (error) {
+        result.failed.push({ ...item, error: new ServiceError(this.channel, error) });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Logs in and opens the port, unless the current session is still valid.
+   */
+  private connect() {
+    if (this.sessionExpiresAt !== null && this.clock.now() < this.sessionExpiresAt) {
+      return;
+    }
+
+    const { expiresIn } = this.service.login('username', 'password');
+    this.service.setPort(8080);
+    this.sessionExpiresAt = this.clock.now() + expiresIn * 1000;
+  }
+
+  /**
+   * The service may end the session earlier than it said, so an expired
+   * session is renewed once before giving up.
+   */
+  private deliver(recipient: Recipient, message: Message) {
+    const text = `${message.subject}: ${message.body}`;
+
+    try {
+      this.service.sendSms(recipient.phone, text);
+    } catch (error) {
+      if (!(error instanceof XyzSessionExpired)) {
+        throw error;
+      }
+
+      this.sessionExpiresAt = null;
+      this.connect();
+      this.service.sendSms(recipient.phone, text);
+    }
   }
 }
 
 // Another Adapter
 class EmailNotification implements Notification {
-  public send() {
-    console.log('Sending Email');
+  public readonly channel = 'email';
+
+  public async send(recipient: Recipient, message: Message): Promise<Delivery> {
+    if (!recipient.email) {
+      throw new MissingAddressError(this.channel, recipient);
+    }
+
+    console.log(`Sending Email to ${recipient.email}: ${message.subject}`);
+
+    return { channel: this.channel, attempts: 1, errors: [] };
+  }
+}
+
+/**
+ * Another External Service (Adaptee) for push notifications, with an interface
+ * of its own.
+ */
+class PushKit {
+  connect(apiKey: string) {}
+  push(deviceToken: string, payload: { title: string, body: string }) {
+    console.log(`Pushing to ${deviceToken}: ${payload.title}`);
+  }
+}
+
+// Another Adapter
+class PushKitAdapter implements Notification {
+  public readonly channel = 'push';
+  private service: PushKit;
+
+  constructor(service: PushKit) {
+    this.service = service;
+  }
+
+  public async send(recipient: Recipient, message: Message): Promise<Delivery> {
+    if (!recipient.deviceToken) {
+      throw new MissingAddressError(this.channel, recipient);
+    }
+
+    try {
+      this.service.connect('api-key');
+      this.service.push(recipient.deviceToken, { title: message.subject, body: message.body });
+    } catch (error) {
+      throw new ServiceError(this.channel, error);
+    }
+
+    return { channel: this.channel, attempts: 1, errors: [] };
+  }
+}
+
+interface RetryOptions {
+  attempts: number;
+  baseDelay: number;
+  factor: number;
+  maxDelay: number;
+}
+
+/**
+ * Retries the retryable errors with exponential backoff: the n-th retry waits
+ * `baseDelay * factor ^ (n - 1)` milliseconds, never more than `maxDelay`.
+ */
+class RetryPolicy {
+  private options: RetryOptions;
+
+  constructor(options: Partial<RetryOptions> = {}, private clock: Clock = systemClock) {
+    this.options = { attempts: 3, baseDelay: 100, factor: 2, maxDelay: 5000, ...options };
+  }
+
+  public async execute(send: () => Promise<Delivery>): Promise<Delivery> {
+    const errors: DeliveryError[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const delivery = await send();
+
+        // The notifier may have made several attempts of its own, e.g. a
+        // failover chain, so the failed attempts before it are added to them.
+        return { ...delivery, attempts: attempt - 1 + delivery.attempts, errors: [...errors, ...delivery.errors] };
+      } catch (error) {
+        if (!(error instanceof DeliveryError)) {
+          throw error;
+        }
+
+        errors.push(error);
+
+        if (!error.retryable || attempt >= this.options.attempts) {
+          // A single attempt has nothing more to tell than its own error
+          throw attempt === 1 ? error : new RetriesExhaustedError(error.channel, attempt, errors);
+        }
+
+        await this.clock.sleep(this.delay(attempt));
+      }
+    }
+  }
+
+  private delay(attempt: number): number {
+    const { baseDelay, factor, maxDelay } = this.options;
+
+    return Math.min(baseDelay * factor ** (attempt - 1), maxDelay);
+  }
+}
+
+/**
+ * Adapter Toolkit.
+ * Most adapters look alike: every method of the target interface makes a few
+ * calls to the adaptee, translating the arguments on the way in and the result
+ * (or the error) on the way out. Instead of writing a class for each adapter,
+ * the toolkit builds the adapter from a declarative mapping.
+ */
+type MethodKeys<T> = { [K in keyof T]: T[K] extends (...args: any[]) => any ? K : never }[keyof T];
+type PropertyKeys<T> = Exclude<keyof T, MethodKeys<T>>;
+type Method<T, K extends MethodKeys<T>> = T[K] extends (...args: any[]) => any ? T[K] : never;
+
+/**
+ * A call to one of the adaptee's methods. `args` receives the arguments of the
+ * target method and returns the arguments of the adaptee method.
+ */
+type AdapteeCall<Adaptee, Args extends unknown[]> = {
+  [M in MethodKeys<Adaptee>]: {
+    method: M;
+    args?: (...args: Args) => Parameters<Method<Adaptee, M>>;
+  };
+}[MethodKeys<Adaptee>];
+
+/**
+ * How a target method is implemented: the adaptee calls to make in order, how
+ * to turn their results into the result of the target method (by default, the
+ * result of the last call), and how to translate the errors they throw.
+ */
+interface MethodMapping<Adaptee, Fn extends (...args: any[]) => any> {
+  calls: AdapteeCall<Adaptee, Parameters<Fn>>[];
+  result?: (results: unknown[], ...args: Parameters<Fn>) => ReturnType<Fn>;
+  error?: (error: unknown, ...args: Parameters<Fn>) => ReturnType<Fn>;
+}
+
+interface AdapterMapping<Target, Adaptee> {
+  methods: { [K in MethodKeys<Target>]: MethodMapping<Adaptee, Method<Target, K>> };
+  properties: Pick<Target, PropertyKeys<Target>>;
+}
+
+/**
+ * Builds an object implementing `Target` on top of the adaptee. Interfaces do
+ * not exist at run-time, so the names of the target methods are given too.
+ * The mapping is checked against them both ways and against the adaptee up
+ * front, so a wrong mapping or an incomplete list of names fails when the
+ * adapter is created rather than when it is used.
+ */
+function createAdapter<Target, Adaptee>(
+  targetMethods: ReadonlyArray<MethodKeys<Target>>,
+  adaptee: Adaptee,
+  mapping: AdapterMapping<Target, Adaptee>,
+): Target {
+  const adapter: Record<string, unknown> = { ...mapping.properties };
+  const mappedMethods = Object.keys(mapping.methods) as Array<MethodKeys<Target>>;
+
+  for (const name of targetMethods) {
+    if (!mapping.methods[name]) {
+      throw new Error(`The "${String(name)}" method of the target is not mapped`);
+    }
+  }
+
+  for (const name of mappedMethods) {
+    const spec: MethodMapping<Adaptee, any> = mapping.methods[name];
+
+    if (!targetMethods.includes(name)) {
+      throw new Error(`The "${String(name)}" method is mapped but missing from the target methods`);
+    }
+
+    for (const call of spec.calls) {
+      if (typeof adaptee[call.method] !== 'function') {
+        throw new Error(`The adaptee has no "${String(call.method)}" method`);
+      }
+    }
+
+    adapter[name as string] = (...args: unknown[]) => {
+      const fail = (error: unknown) => {
+        if (spec.error) {
+          return spec.error(error, ...args);
+        }
+
+        throw error;
+      };
+
+      // The calls run one after another. When a call returns a promise, the
+      // next ones wait for it, and an error on the way rejects the promise
+      // of the whole chain, so `fail` handles it only once.
+      const run = (index: number, results: unknown[]): unknown => {
+        if (index === spec.calls.length) {
+          return spec.result ? spec.result(results, ...args) : results[results.length - 1];
+        }
+
+        const call = spec.calls[index];
+        const method = adaptee[call.method] as unknown as (...args: unknown[]) => unknown;
+        const value = method.apply(adaptee, call.args ? call.args(...args) : []);
+
+        return value instanceof Promise
+          ? value.then(resolved => run(index + 1, [...results, resolved]))
+          : run(index + 1, [...results, value]);
+      };
+
+      try {
+        const result = run(0, []);
+
+        return result instanceof Promise ? result.catch(fail) : result;
+      } catch (error) {
+        return fail(error);
+      }
+    };
+  }
+
+  return adapter as Target;
+}
+
+/**
+ * The notifiers below wrap other notifiers and implement the same interface.
+ * So they can be composed with each other and passed anywhere a notifier is
+ * expected.
+ *
+ * This one retries the wrapped notifier with a retry policy.
+ */
+class RetryingNotification implements Notification {
+  public readonly channel: Channel;
+
+  constructor(private notifier: Notification, private policy: RetryPolicy) {
+    this.channel = notifier.channel;
+  }
+
+  public send(recipient: Recipient, message: Message): Promise<Delivery> {
+    return this.policy.execute(() => this.notifier.send(recipient, message));
+  }
+}
+
+/**
+ * Tries the notifiers one after another until one of them delivers, e.g.
+ * SMS, then email, then push. The delivery tells which one it was.
+ */
+class FailoverNotification implements Notification {
+  public readonly channel: Channel;
+
+  constructor(private notifiers: Notification[]) {
+    if (!notifiers.length) {
+      throw new Error('A failover chain needs at least one notifier');
+    }
+
+    this.channel = notifiers[0].channel;
+  }
+
+  public async send(recipient: Recipient, message: Message): Promise<Delivery> {
+    const errors: DeliveryError[] = [];
+    let attempts = 0;
+    let last: DeliveryError;
+
+    for (const notifier of this.notifiers) {
+      try {
+        const delivery = await notifier.send(recipient, message);
+
+        return {
+          channel: delivery.channel,
+          attempts: attempts + delivery.attempts,
+          errors: [...errors, ...delivery.errors],
+        };
+      } catch (error) {
+        if (!(error instanceof DeliveryError)) {
+          throw error;
+        }
+
+        // A retried notifier reports all of its attempts
+        if (error instanceof RetriesExhaustedError) {
+          errors.push(...error.errors);
+          attempts += error.attempts;
+        } else {
+          errors.push(error);
+          attempts++;
+        }
+
+        last = error;
+      }
+    }
+
+    // Every notifier failed, the last error is the most relevant one
+    throw last;
+  }
+}
+
+/**
+ * The dispatcher sends a notification over every channel the recipient
+ * prefers. It only works with the Adapter interface, so any service can be
+ * added as a channel without changing it.
+ */
+class NotificationDispatcher {
+  private notifiers: Partial<Record<Channel, Notification>> = {};
+
+  constructor(notifiers: Notification[]) {
+    for (const notifier of notifiers) {
+      this.notifiers[notifier.channel] = notifier;
+    }
+  }
+
+  public dispatch(recipient: Recipient, message: Message): Promise<DeliveryResult[]> {
+    return Promise.all(recipient.channels.map(async channel => {
+      const notifier = this.notifiers[channel];
+
+      if (!notifier) {
+        return {
+          channel,
+          delivered: false,
+          error: new DeliveryError(channel, `The ${channel} channel is not available`, false),
+        };
+      }
+
+      // A failing channel should not stop the other channels
+      try {
+        return { channel, delivered: true, delivery: await notifier.send(recipient, message) };
+      } catch (error) {
+        if (!(error instanceof DeliveryError)) {
+          throw error;
+        }
+
+        return { channel, delivered: false, error };
+      }
+    }));
   }
 }
 
@@ -82,15 +621,94 @@ class EmailNotification implements Notification {
  * The client is able to work with any services as long as the service is an
  * implementation of Adapter interface.
  */
-function notifyUsers(notifier: Notification) {
-  notifier.send();
+async function notifyUsers(notifier: Notification) {
+  try {
+    const delivery = await notifier.send(user, { subject: 'Welcome', body: 'Thanks for signing up!' });
+
+    console.log(`Delivered via ${delivery.channel}`);
+  } catch (error) {
+    console.log(`Could not notify ${user.name}: ${error.message}`);
+  }
 }
 
-// We first instantiate our desired adapter and then pass it to the client.
-// Notify with SMS:
-const SmsNotifier = new XyzSmsAdapter(new XYZ_SMS);
-notifyUsers(SmsNotifier);
+const user: Recipient = {
+  name: 'Ali',
+  phone: '+989121234567',
+  email: 'ali@example.com',
+  channels: ['push', 'email'],
+};
+
+(async () => {
+  // We first instantiate our desired adapter and then pass it to the client.
+  // Notify with SMS:
+  const SmsNotifier = new XyzSmsAdapter(new XYZ_SMS);
+  await notifyUsers(SmsNotifier); // Logging in to XYZ
+
+  // Notify with email:
+  const emailNotifier = new EmailNotification();
+  await notifyUsers(emailNotifier);
+
+  // Or let the dispatcher notify the user through the channels they prefer:
+  const dispatcher = new NotificationDispatcher([
+    SmsNotifier,
+    emailNotifier,
+    new PushKitAdapter(new PushKit),
+  ]);
+
+  const results = await dispatcher.dispatch(user, { subject: 'New login', body: 'A new device logged in.' });
+  console.log(results.map(({ channel, delivered }) => ({ channel, delivered })));
+  // Sending Email to ali@example.com: New login
+  // [{ channel: 'push', delivered: false }, { channel: 'email', delivered: true }]
+
+  // The same SMS adapter, built with the toolkit instead of a class:
+  const toolkitSmsNotifier = createAdapter<Notification, XYZ_SMS>(['send'], new XYZ_SMS, {
+    properties: { channel: 'sms' },
+    methods: {
+      send: {
+        calls: [
+          { method: 'login', args: () => ['username', 'password'] },
+          { method: 'setPort', args: () => [8080] },
+          { method: 'sendSms', args: (recipient, message) => [recipient.phone, `${message.subject}: ${message.body}`] },
+        ],
+        result: async () => ({ channel: 'sms', attempts: 1, errors: [] }),
+        error: async error => { throw new ServiceError('sms', error); },
+      },
+    },
+  });
+  await notifyUsers(toolkitSmsNotifier);
+  // Logging in to XYZ
+  // Sending SMS to +989121234567: Welcome: Thanks for signing up!
+  // Delivered via sms
+
+  // Campaigns are sent as a batch over a single session:
+  const campaign = await SmsNotifier.sendBatch([
+    { recipient: user, message: { subject: 'Sale', body: '50% off today!' } },
+    { recipient: { name: 'Sara', phone: '+14155550123', channels: ['sms'] }, message: { subject: 'Sale', body: '50% off today!' } },
+    { recipient: { name: 'Reza', channels: ['email'] }, message: { subject: 'Sale', body: '50% off today!' } },
+  ]);
+  console.log(campaign.delivered, campaign.failed.map(({ error }) => error.message));
+  // Sending SMS to +989121234567: Sale: 50% off today!
+  // Sending SMS to +14155550123: Sale: 50% off today!
+  // 2 [ 'Reza has no sms address' ]
+
+  // When the SMS service is down, the SMS is retried and then the chain fails
+  // over to email:
+  class UnavailableSms extends XYZ_SMS {
+    sendSms() {
+      throw new Error('Connection refused');
+    }
+  }
+
+  const failover = new FailoverNotification([
+    new RetryingNotification(new XyzSmsAdapter(new UnavailableSms), new RetryPolicy({ attempts: 3, baseDelay: 10 })),
+    emailNotifier,
+    new PushKitAdapter(new PushKit),
+  ]);
+  await notifyUsers(failover);
+  // Sending Email to ali@example.com: Welcome
+  // Delivered via email
 
-// Notify with email:
-const emailNotifier = new EmailNotification();
-notifyUsers(emailNotifier);
+  // The delivery counts every attempt on the way, the retries included:
+  const delivery = await failover.send(user, { subject: 'Welcome', body: 'Thanks for signing up!' });
+  console.log(delivery.channel, delivery.attempts, delivery.errors.length); // email 4 3
+})();
@@ -16,120 +16,1866 @@
  */
 
 
+/**
+ * The values that can be bound to a query. Builders never paste these values
+ * into the query text; they are kept aside and sent to the database separately.
+ */
+type Value = string | number | boolean | null;
+
+/**
+ * The comparison operators that can be used in a `where` condition. Operators
+ * are written into the query text, so only these are accepted.
+ */
+const OPERATORS = ['=', '!=', '<>', '<', '<=', '>', '>=', 'LIKE', 'NOT LIKE'] as const;
+
+type Operator = typeof OPERATORS[number];
+
+/**
+ * The sort directions of `orderBy`. Like the operators, they are written into
+ * the query text, so only these are accepted.
+ */
+const DIRECTIONS = ['ASC', 'DESC'] as const;
+
+type Direction = typeof DIRECTIONS[number];
+
+/**
+ * A single node of the where clause. Every node remembers whether it is joined
+ * to the previous node with AND or OR. Groups hold their own list of nodes,
+ * which lets us describe conditions wrapped in parentheses.
+ */
+type Condition =
+  | { type: 'basic', boolean: 'AND' | 'OR', col: string, operator: Operator, value: Value }
+  | { type: 'in', boolean: 'AND' | 'OR', col: string, values: Value[], not: boolean }
+  | { type: 'null', boolean: 'AND' | 'OR', col: string, not: boolean }
+  | { type: 'between', boolean: 'AND' | 'OR', col: string, range: [Value, Value] }
+  | { type: 'group', boolean: 'AND' | 'OR', conditions: Condition[] };
+
+/**
+ * The accepted forms of `where` and `orWhere`:
+ * - `where('id', 429)` for equality
+ * - `where('views', '>', 100)` for any of the operators
+ * - `where(query => query.where(...).orWhere(...))` for a parenthesized group
+ */
+type WhereArgs =
+  | [col: string, value: Value]
+  | [col: string, operator: Operator, value: Value]
+  | [group: (query: WhereClause) => void];
+
+/**
+ * Collects the conditions of a where clause. It knows nothing about any
+ * database; every concrete builder translates the collected conditions into
+ * its own language. An instance of this class is also handed to the callbacks
+ * of grouped conditions.
+ */
+class WhereClause {
+  public readonly conditions: Condition[] = [];
+
+  public where(...args: WhereArgs): this {
+    return this.add('AND', args);
+  }
+
+  public orWhere(...args: WhereArgs): this {
+    return this.add('OR', args);
+  }
+
+  public whereIn(col: string, values: Value[]): this {
+    this.conditions.push({ type: 'in', boolean: 'AND', col, values, not: false });
+
+    return this;
+  }
+
+  public whereNotIn(col: string, values: Value[]): this {
+    this.conditions.push({ type: 'in', boolean: 'AND', col, values, not: true });
+
+    return this;
+  }
+
+  public whereNull(col: string): this {
+    this.conditions.push({ type: 'null', boolean: 'AND', col, not: false });
+
+    return this;
+  }
+
+  public whereNotNull(col: string): this {
+    this.conditions.push({ type: 'null', boolean: 'AND', col, not: true });
+
+    return this;
+  }
+
+  public whereBetween(col: string, range: [Value, Value]): this {
+    this.conditions.push({ type: 'between', boolean: 'AND', col, range });
+
+    return this;
+  }
+
+  private add(boolean: 'AND' | 'OR', args: WhereArgs): this {
+    if (typeof args[0] === 'function') {
+      const group = new WhereClause();
+      args[0](group);
+
+      // An empty group compiles to nothing, so it is dropped. Otherwise it
+      // would count as a condition and let an update or a delete through.
+      if (group.conditions.length) {
+        this.conditions.push({ type: 'group', boolean, conditions: group.conditions });
+      }
+
+      return this;
+    }
+
+    const [col, operator, value] = args.length === 3
+      ? args
+      : [args[0], '=' as Operator, args[1]];
+
+    if (!OPERATORS.includes(operator)) {
+      throw new Error(`Invalid operator: ${operator}`);
+    }
+
+    this.conditions.push({ type: 'basic', boolean, col, operator, value });
+
+    return this;
+  }
+}
+
+/**
+ * The final product of the SQL builders: the query text with placeholders (`?`
+ * or `$1` depending on the database) and the values that should be bound to
+ * those placeholders, in order.
+ */
+interface SqlQuery {
+  sql: string;
+  params: Value[];
+}
+
+/**
+ * The aggregate functions that can be selected next to the plain columns.
+ */
+interface Aggregate {
+  fn: 'COUNT' | 'SUM' | 'AVG';
+  col: string;
+  alias: string;
+}
+
+interface Join {
+  type: 'INNER' | 'LEFT';
+  table: string;
+  first: string;
+  second: string;
+}
+
+interface Order {
+  col: string;
+  direction: Direction;
+}
+
+/**
+ * A row to be written, keyed by column name.
+ */
+type Row = Record<string, Value>;
+
+/**
+ * The kind of statement being built. Every builder starts as a read and
+ * `insert`, `update`, `delete` or `upsert` turn it into a write.
+ */
+type Statement = 'select' | 'insert' | 'update' | 'delete' | 'upsert';
+
+/**
+ * A row returned by a database. Rows of joined tables may be nested.
+ */
+type Result = Record<string, unknown>;
+
+/**
+ * One page of results, along with what is needed to render a paginator.
+ */
+interface Page {
+  data: Result[];
+  total: number;
+  page: number;
+  perPage: number;
+  lastPage: number;
+}
+
+/**
+ * A driver runs the products of a builder against a database. Drivers are
+ * kept small on purpose, so wrapping any database client in one is easy, e.g.
+ * for MySQL: `{ execute: async ({ sql, params }) => (await conn.execute(sql, params))[0] }`
+ */
+interface Driver<Product> {
+  execute(query: Product): Promise<Result[]>;
+}
+
 /**
  * The Builder Interface.
  * This interface specifies the set of methods for creating the different parts
  * of the resulting objects. In SQL, each query is made of several clauses and
  * keywords. To build a complex and complete SQL query, we separate each clause
  * into a distinct method in this interface.
+ * The type of the final product is a parameter of the interface, because each
+ * builder may produce a totally different kind of object.
+ */
+interface QueryBuilder<Product = unknown> {
+  /**
+   * Some methods' output signature is a type of the Builder Interface. This is
+   * useful for implementing the method chaining behavior.
+   */
+  table(table: string): QueryBuilder<Product>;
+  select(cols: string[]): QueryBuilder<Product>;
+  selectCount(col?: string, alias?: string): QueryBuilder<Product>;
+  selectSum(col: string, alias?: string): QueryBuilder<Product>;
+  selectAvg(col: string, alias?: string): QueryBuilder<Product>;
+  join(table: string, first: string, second: string): QueryBuilder<Product>;
+  leftJoin(table: string, first: string, second: string): QueryBuilder<Product>;
+  where(...args: WhereArgs): QueryBuilder<Product>;
+  orWhere(...args: WhereArgs): QueryBuilder<Product>;
+  whereIn(col: string, values: Value[]): QueryBuilder<Product>;
+  whereNotIn(col: string, values: Value[]): QueryBuilder<Product>;
+  whereNull(col: string): QueryBuilder<Product>;
+  whereNotNull(col: string): QueryBuilder<Product>;
+  whereBetween(col: string, range: [Value, Value]): QueryBuilder<Product>;
+  groupBy(cols: string[]): QueryBuilder<Product>;
+  having(...args: WhereArgs): QueryBuilder<Product>;
+  orderBy(col: string, direction?: Direction): QueryBuilder<Product>;
+  limit(value: number): QueryBuilder<Product>;
+  offset(value: number): QueryBuilder<Product>;
+  insert(rows: Row | Row[]): QueryBuilder<Product>;
+  update(values: Row): QueryBuilder<Product>;
+  delete(): QueryBuilder<Product>;
+  upsert(rows: Row | Row[], uniqueBy: string[], update?: string[]): QueryBuilder<Product>;
+  force(): QueryBuilder<Product>;
+
+  // To get the final result (product)
+  getQuery(): Product;
+
+  // To run the product through the driver of the builder
+  get(): Promise<Result[]>;
+  first(): Promise<Result | null>;
+  count(): Promise<number>;
+  paginate(page: number, perPage: number): Promise<Page>;
+}
+
+/**
+ * Base Builder class.
+ * The build steps only store the parts of the query, and storing them is the
+ * same for every database. So the steps are implemented once in this class and
+ * each concrete builder only implements the final step that puts the parts
+ * together and returns its own product.
+ */
+abstract class BaseQueryBuilder<Product> implements QueryBuilder<Product> {
+  protected tableName: string = null;
+  protected columns: string[] = [];
+  protected aggregates: Aggregate[] = [];
+  protected joins: Join[] = [];
+  protected wheres = new WhereClause();
+  protected groups: string[] = [];
+  protected havings = new WhereClause();
+  protected orders: Order[] = [];
+  protected limitValue: number = null;
+  protected offsetValue: number = null;
+  protected statement: Statement = 'select';
+  protected rows: Row[] = [];
+  protected values: Row = {};
+  protected uniqueBy: string[] = [];
+  protected updateColumns: string[] = [];
+  protected forced = false;
+
+  /**
+   * The driver is only needed to run the queries. Without it, the builder can
+   * still build them.
+   */
+  public constructor(protected driver: Driver<Product> = null) {}
+
+  /**
+   * We do "return this" to implement the method chaining behavior.
+   */
+  public table(table: string): this {
+    this.tableName = table;
+
+    return this;
+  }
+
+  public select(cols: string[]): this {
+    this.columns.push(...cols);
+
+    return this;
+  }
+
+  /**
+   * Aggregates are selected under an alias, `count`, `sum_views` and
+   * `avg_views` by default.
+   */
+  public selectCount(col = '*', alias = 'count'): this {
+    this.aggregates.push({ fn: 'COUNT', col, alias });
+
+    return this;
+  }
+
+  public selectSum(col: string, alias = `sum_${this.baseName(col)}`): this {
+    this.aggregates.push({ fn: 'SUM', col, alias });
+
+    return this;
+  }
+
+  public selectAvg(col: string, alias = `avg_${this.baseName(col)}`): this {
+    this.aggregates.push({ fn: 'AVG', col, alias });
+
+    return this;
+  }
+
+  /**
+   * Joins `table` on `first = second`, e.g.
+   * `join('users', 'posts.author_id', 'users.id')`.
+   */
+  public join(table: string, first: string, second: string): this {
+    this.joins.push({ type: 'INNER', table, first, second });
+
+    return this;
+  }
+
+  public leftJoin(table: string, first: string, second: string): this {
+    this.joins.push({ type: 'LEFT', table, first, second });
+
+    return this;
+  }
+
+  /**
+   * The where methods are delegated to a `WhereClause` that collects the
+   * conditions.
+   */
+  public where(...args: WhereArgs): this {
+    this.wheres.where(...args);
+
+    return this;
+  }
+
+  public orWhere(...args: WhereArgs): this {
+    this.wheres.orWhere(...args);
+
+    return this;
+  }
+
+  public whereIn(col: string, values: Value[]): this {
+    this.wheres.whereIn(col, values);
+
+    return this;
+  }
+
+  public whereNotIn(col: string, values: Value[]): this {
+    this.wheres.whereNotIn(col, values);
+
+    return this;
+  }
+
+  public whereNull(col: string): this {
+    this.wheres.whereNull(col);
+
+    return this;
+  }
+
+  public whereNotNull(col: string): this {
+    this.wheres.whereNotNull(col);
+
+    return this;
+  }
+
+  public whereBetween(col: string, range: [Value, Value]): this {
+    this.wheres.whereBetween(col, range);
+
+    return this;
+  }
+
+  public groupBy(cols: string[]): this {
+    this.groups.push(...cols);
+
+    return this;
+  }
+
+  /**
+   * Having conditions filter the grouped rows. They accept the same forms as
+   * `where`. The alias of an aggregate selected on this builder can be used as
+   * a column; builders of databases that do not accept aliases in HAVING
+   * render the aggregate itself.
+   */
+  public having(...args: WhereArgs): this {
+    this.havings.where(...args);
+
+    return this;
+  }
+
+  public orderBy(col: string, direction: Direction = 'ASC'): this {
+    if (!DIRECTIONS.includes(direction)) {
+      throw new Error(`Invalid direction: ${direction}`);
+    }
+
+    this.orders.push({ col, direction });
+
+    return this;
+  }
+
+  public limit(value: number): this {
+    this.limitValue = this.assertCount('limit', value);
+
+    return this;
+  }
+
+  public offset(value: number): this {
+    this.offsetValue = this.assertCount('offset', value);
+
+    return this;
+  }
+
+  public insert(rows: Row | Row[]): this {
+    this.statement = 'insert';
+    this.rows = this.assertRows(rows);
+
+    return this;
+  }
+
+  /**
+   * Updates the rows matched by the where conditions with `values`.
+   */
+  public update(values: Row): this {
+    if (!Object.keys(values).length) {
+      throw new Error('No values are given to update');
+    }
+
+    this.statement = 'update';
+    this.values = values;
+
+    return this;
+  }
+
+  public delete(): this {
+    this.statement = 'delete';
+
+    return this;
+  }
+
+  /**
+   * Inserts the rows, or updates the existing rows that have the same values
+   * in the `uniqueBy` columns. Only the `update` columns are overwritten, which
+   * by default are all the columns except the `uniqueBy` ones.
+   */
+  public upsert(rows: Row | Row[], uniqueBy: string[], update?: string[]): this {
+    if (!uniqueBy.length) {
+      throw new Error('Upsert needs at least one unique column');
+    }
+
+    this.statement = 'upsert';
+    this.rows = this.assertRows(rows);
+    this.uniqueBy = uniqueBy;
+    this.updateColumns = update
+      ?? this.rowColumns().filter(col => !uniqueBy.includes(col));
+
+    return this;
+  }
+
+  /**
+   * Updates and deletes without any where condition are refused, because
+   * touching every row of a table is rarely intended. Calling `force` allows
+   * them explicitly.
+   */
+  public force(): this {
+    this.forced = true;
+
+    return this;
+  }
+
+  /**
+   * Every concrete builder assembles the stored parts into its own product.
+   */
+  public abstract getQuery(): Product;
+
+  public async get(): Promise<Result[]> {
+    return this.execute(this.getQuery());
+  }
+
+  public async first(): Promise<Result | null> {
+    const rows = await this.execute(this.getQueryWith({ limitValue: 1 }));
+
+    return rows.length ? rows[0] : null;
+  }
+
+  /**
+   * Counts the rows matched by the query, ignoring its columns, order and
+   * limit. A grouped query is run as it is to count its groups.
+   */
+  public async count(): Promise<number> {
+    if (this.groups.length) {
+      const groups = await this.execute(this.getQueryWith({ limitValue: null, offsetValue: null }));
+
+      return groups.length;
+    }
+
+    const rows = await this.execute(this.getQueryWith({
+      columns: [],
+      aggregates: [{ fn: 'COUNT', col: '*', alias: 'count' }],
+      orders: [],
+      limitValue: null,
+      offsetValue: null,
+    }));
+
+    // Some drivers return big numbers as strings, and MongoDB returns no
+    // groups at all when nothing is matched.
+    return rows.length ? Number(rows[0].count) : 0;
+  }
+
+  public async paginate(page: number, perPage: number): Promise<Page> {
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(perPage) || perPage < 1) {
+      throw new Error(`Invalid page: ${page} of ${perPage} rows`);
+    }
+
+    const total = await this.count();
+    const data = await this.execute(this.getQueryWith({
+      limitValue: perPage,
+      offsetValue: (page - 1) * perPage,
+    }));
+
+    return { data, total, page, perPage, lastPage: Math.max(Math.ceil(total / perPage), 1) };
+  }
+
+  /**
+   * Checks the common preconditions of every product. Concrete builders call
+   * it before assembling their product.
+   */
+  protected assertBuildable(): void {
+    if (!this.tableName) {
+      throw new Error('No table is specified for the query');
+    }
+
+    const isUnsafe = this.statement === 'update' || this.statement === 'delete';
+
+    if (isUnsafe && !this.wheres.conditions.length && !this.forced) {
+      throw new Error(
+        `Refusing to ${this.statement} every row of "${this.tableName}" without a where condition. Call force() to allow it`
+      );
+    }
+  }
+
+  /**
+   * The columns of all the rows to be written, in order of first appearance.
+   */
+  protected rowColumns(): string[] {
+    return [...new Set(this.rows.flatMap(row => Object.keys(row)))];
+  }
+
+  /**
+   * The last segment of a possibly qualified column: `posts.views` -> `views`.
+   */
+  protected baseName(col: string): string {
+    return col.split('.').pop();
+  }
+
+  /**
+   * Builds the product with some of its parts replaced, without changing the
+   * builder itself. This lets `first`, `count` and `paginate` reuse the query.
+   */
+  protected getQueryWith(parts: {
+    columns?: string[],
+    aggregates?: Aggregate[],
+    orders?: Order[],
+    limitValue?: number,
+    offsetValue?: number,
+  }): Product {
+    const original = {
+      columns: this.columns,
+      aggregates: this.aggregates,
+      orders: this.orders,
+      limitValue: this.limitValue,
+      offsetValue: this.offsetValue,
+    };
+
+    Object.assign(this, parts);
+
+    try {
+      return this.getQuery();
+    } finally {
+      Object.assign(this, original);
+    }
+  }
+
+  private execute(query: Product): Promise<Result[]> {
+    if (!this.driver) {
+      throw new Error(`${this.constructor.name} has no driver to run the query`);
+    }
+
+    return this.driver.execute(query);
+  }
+
+  private assertRows(rows: Row | Row[]): Row[] {
+    const list = Array.isArray(rows) ? rows : [rows];
+
+    if (!list.length || list.some(row => !Object.keys(row).length)) {
+      throw new Error('No values are given to insert');
+    }
+
+    return list;
+  }
+
+  private assertCount(name: string, value: number): number {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Base class of the SQL builders.
+ * SQL databases share most of their syntax, so the SQL statements are put
+ * together once in this class. The few parts that differ between dialects,
+ * like quoting identifiers or writing placeholders, are left to the concrete
+ * builders through small protected methods.
+ */
+abstract class SqlQueryBuilder extends BaseQueryBuilder<SqlQuery> {
+  protected returningColumns: string[] = [];
+
+  /**
+   * Whether the dialect can return the written rows with a RETURNING clause.
+   */
+  protected abstract readonly supportsReturning: boolean;
+
+  /**
+   * Wraps a single identifier in the quotes of the dialect, so that column and
+   * table names can never be mistaken for SQL keywords or injected code.
+   */
+  protected abstract wrap(identifier: string): string;
+
+  /**
+   * Makes the returned columns of an insert, update, delete or upsert part of
+   * the result, e.g. to get the generated ids of the inserted rows.
+   */
+  public returning(cols: string[]): this {
+    if (!this.supportsReturning) {
+      throw new Error(`${this.constructor.name} does not support RETURNING`);
+    }
+
+    this.returningColumns.push(...cols);
+
+    return this;
+  }
+
+  /**
+   * At the end, every builder returns its result. The result is also called
+   * Product. The result of a SQL query builder, is a valid string of SQL query
+   * along with the values that should be bound to it.
+   */
+  public getQuery(): SqlQuery {
+    this.assertBuildable();
+
+    switch (this.statement) {
+      case 'select': return this.compileSelect();
+      case 'insert': return this.compileReturning(this.compileInsert());
+      case 'update': return this.compileReturning(this.compileUpdate());
+      case 'delete': return this.compileReturning(this.compileDelete());
+      case 'upsert': return this.compileReturning(this.compileUpsert());
+    }
+  }
+
+  /**
+   * The placeholder of the value at `position` (starting from 1) of params.
+   */
+  protected placeholder(position: number): string {
+    return '?';
+  }
+
+  /**
+   * Renders LIMIT and OFFSET. Some dialects do not accept an OFFSET on its own.
+   */
+  protected compileLimit(): string {
+    let sql = '';
+
+    if (this.limitValue !== null) {
+      sql += ` LIMIT ${this.limitValue}`;
+    }
+
+    if (this.offsetValue !== null) {
+      sql += ` OFFSET ${this.offsetValue}`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Renders the part of an upsert that follows the inserted rows. Most
+   * dialects follow the `ON CONFLICT` syntax of PostgreSQL.
+   */
+  protected compileUpsertClause(): string {
+    const target = this.uniqueBy.map(col => this.quote(col)).join(', ');
+
+    if (!this.updateColumns.length) {
+      return ` ON CONFLICT (${target}) DO NOTHING`;
+    }
+
+    const updates = this.updateColumns
+      .map(col => `${this.quote(col)} = EXCLUDED.${this.quote(col)}`);
+
+    return ` ON CONFLICT (${target}) DO UPDATE SET ${updates.join(', ')}`;
+  }
+
+  /**
+   * Renders the ORDER BY and LIMIT of an update or delete. The SQL standard
+   * does not have them, so they are refused unless a dialect supports them.
+   */
+  protected compileWriteLimit(): string {
+    if (this.orders.length || this.limitValue !== null || this.offsetValue !== null) {
+      throw new Error(`${this.constructor.name} cannot order or limit the rows of ${this.statement}`);
+    }
+
+    return '';
+  }
+
+  /**
+   * Columns that some rows do not have are filled with their DEFAULT value,
+   * so every row can be written by the same statement.
+   */
+  protected compileMissingValue(col: string): string {
+    return 'DEFAULT';
+  }
+
+  /**
+   * Adds the value to the params and returns the placeholder standing for it.
+   */
+  protected bind(params: Value[], value: Value): string {
+    params.push(value);
+
+    return this.placeholder(params.length);
+  }
+
+  /**
+   * Quotes every part of a possibly qualified identifier: `posts.id` becomes
+   * `"posts"."id"` in most dialects, and `*` is left untouched.
+   */
+  protected quote(identifier: string): string {
+    return identifier
+      .split('.')
+      .map(part => part === '*' ? part : this.wrap(part))
+      .join('.');
+  }
+
+  /**
+   * Renders a column of a having condition. MySQL and SQLite accept the alias
+   * of an aggregate there, so the column is only quoted.
+   */
+  protected compileHavingColumn(col: string): string {
+    return this.quote(col);
+  }
+
+  /**
+   * The aggregate itself, without its alias: `COUNT(*)`.
+   */
+  protected compileAggregateExpression({ fn, col }: Aggregate): string {
+    return `${fn}(${this.quote(col)})`;
+  }
+
+  protected compileOrders(): string {
+    const orders = this.orders.map(({ col, direction }) => `${this.quote(col)} ${direction}`);
+
+    return ` ORDER BY ${orders.join(', ')}`;
+  }
+
+  private compileSelect(): SqlQuery {
+    const params: Value[] = [];
+    const columns = [
+      ...this.columns.map(col => this.quote(col)),
+      ...this.aggregates.map(aggregate => this.compileAggregate(aggregate)),
+    ];
+
+    let sql = `SELECT ${columns.length ? columns.join(', ') : '*'} FROM ${this.quote(this.tableName)}`;
+
+    for (const join of this.joins) {
+      sql += ` ${join.type} JOIN ${this.quote(join.table)}`
+        + ` ON ${this.quote(join.first)} = ${this.quote(join.second)}`;
+    }
+
+    const where = this.compileConditions(this.wheres.conditions, params);
+
+    if (where) {
+      sql += ` WHERE ${where}`;
+    }
+
+    if (this.groups.length) {
+      sql += ` GROUP BY ${this.groups.map(col => this.quote(col)).join(', ')}`;
+    }
+
+    const having = this.compileConditions(this.havings.conditions, params, col => this.compileHavingColumn(col));
+
+    if (having) {
+      sql += ` HAVING ${having}`;
+    }
+
+    if (this.orders.length) {
+      sql += this.compileOrders();
+    }
+
+    sql += this.compileLimit();
+
+    return { sql, params };
+  }
+
+  private compileInsert(): SqlQuery {
+    const params: Value[] = [];
+    const columns = this.rowColumns();
+    const rows = this.rows.map(row => {
+      const values = columns.map(col => col in row
+        ? this.bind(params, row[col])
+        : this.compileMissingValue(col));
+
+      return `(${values.join(', ')})`;
+    });
+
+    const sql = `INSERT INTO ${this.quote(this.tableName)}`
+      + ` (${columns.map(col => this.quote(col)).join(', ')}) VALUES ${rows.join(', ')}`;
+
+    return { sql, params };
+  }
+
+  private compileUpsert(): SqlQuery {
+    const { sql, params } = this.compileInsert();
+
+    return { sql: sql + this.compileUpsertClause(), params };
+  }
+
+  private compileUpdate(): SqlQuery {
+    const params: Value[] = [];
+    const sets = Object.keys(this.values)
+      .map(col => `${this.quote(col)} = ${this.bind(params, this.values[col])}`);
+
+    const sql = `UPDATE ${this.quote(this.tableName)} SET ${sets.join(', ')}`;
+
+    return this.compileWriteConditions(sql, params);
+  }
+
+  private compileDelete(): SqlQuery {
+    return this.compileWriteConditions(`DELETE FROM ${this.quote(this.tableName)}`, []);
+  }
+
+  private compileWriteConditions(sql: string, params: Value[]): SqlQuery {
+    const where = this.compileConditions(this.wheres.conditions, params);
+
+    if (where) {
+      sql += ` WHERE ${where}`;
+    }
+
+    return { sql: sql + this.compileWriteLimit(), params };
+  }
+
+  private compileReturning({ sql, params }: SqlQuery): SqlQuery {
+    if (!this.returningColumns.length) {
+      return { sql, params };
+    }
+
+    const columns = this.returningColumns.map(col => this.quote(col)).join(', ');
+
+    return { sql: `${sql} RETURNING ${columns}`, params };
+  }
+
+  private compileAggregate(aggregate: Aggregate): string {
+    return `${this.compileAggregateExpression(aggregate)} AS ${this.quote(aggregate.alias)}`;
+  }
+
+  /**
+   * Turns the conditions into SQL. The values are pushed to `params` in the
+   * same order as their placeholders appear in the text. `column` renders the
+   * columns of the conditions.
+   */
+  private compileConditions(
+    conditions: Condition[],
+    params: Value[],
+    column = (col: string) => this.quote(col),
+  ): string {
+    let sql = '';
+
+    for (const condition of conditions) {
+      const compiled = this.compileCondition(condition, params, column);
+
+      if (compiled) {
+        sql += sql ? ` ${condition.boolean} ${compiled}` : compiled;
+      }
+    }
+
+    return sql;
+  }
+
+  private compileCondition(condition: Condition, params: Value[], column: (col: string) => string): string {
+    switch (condition.type) {
+      case 'basic': {
+        const { col, operator, value } = condition;
+
+        // `= NULL` never matches anything in SQL, so it needs its own keyword
+        if (value === null && ['=', '!=', '<>'].includes(operator)) {
+          return `${column(col)} ${operator === '=' ? 'IS NULL' : 'IS NOT NULL'}`;
+        }
+
+        return `${column(col)} ${operator} ${this.bind(params, value)}`;
+      }
+
+      case 'in': {
+        // `IN ()` is a syntax error. An empty list matches nothing, so its
+        // negation matches everything.
+        if (!condition.values.length) {
+          return condition.not ? '1 = 1' : '1 = 0';
+        }
+
+        const placeholders = condition.values.map(value => this.bind(params, value)).join(', ');
+
+        return `${column(condition.col)} ${condition.not ? 'NOT IN' : 'IN'} (${placeholders})`;
+      }
+
+      case 'null':
+        return `${column(condition.col)} ${condition.not ? 'IS NOT NULL' : 'IS NULL'}`;
+
+      case 'between': {
+        const [min, max] = condition.range;
+
+        return `${column(condition.col)} BETWEEN ${this.bind(params, min)} AND ${this.bind(params, max)}`;
+      }
+
+      case 'group': {
+        const sql = this.compileConditions(condition.conditions, params, column);
+
+        return sql ? `(${sql})` : '';
+      }
+    }
+  }
+}
+
+/**
+ * Concrete Builder class. The program may contain several variations of builders
+ * that may return totally different type of objects in comparison to another
+ * builder.
+ * Each concrete builder must follow the Builder Interface and implement its
+ * own way of building the product.
+ * This class, for example is a query builder for MySQL.
+ */
+class MySqlQueryBuilder extends SqlQueryBuilder {
+  /**
+   * The largest value of an unsigned BIGINT. MySQL does not accept OFFSET
+   * without LIMIT, and its documentation suggests this value as "no limit".
+   */
+  private static readonly NO_LIMIT = '18446744073709551615';
+
+  protected readonly supportsReturning = false;
+
+  protected wrap(identifier: string): string {
+    return `\`${identifier.replace(/`/g, '``')}\``;
+  }
+
+  protected compileLimit(): string {
+    if (this.limitValue === null && this.offsetValue !== null) {
+      return ` LIMIT ${MySqlQueryBuilder.NO_LIMIT} OFFSET ${this.offsetValue}`;
+    }
+
+    return super.compileLimit();
+  }
+
+  /**
+   * MySQL finds the conflicting rows by the unique indexes of the table
+   * itself, so `uniqueBy` does not appear in the statement.
+   */
+  protected compileUpsertClause(): string {
+    const updates = this.updateColumns.map(col => `${this.quote(col)} = VALUES(${this.quote(col)})`);
+
+    // With nothing to update, assigning a unique column to itself turns the
+    // duplicate rows into a no-op instead of an error.
+    if (!updates.length) {
+      const col = this.quote(this.uniqueBy[0]);
+      updates.push(`${col} = ${col}`);
+    }
+
+    return ` ON DUPLICATE KEY UPDATE ${updates.join(', ')}`;
+  }
+
+  /**
+   * MySQL also accepts ORDER BY and LIMIT on single table updates and
+   * deletes, e.g. to delete only the oldest rows.
+   */
+  protected compileWriteLimit(): string {
+    if (this.offsetValue !== null) {
+      throw new Error(`MySQL cannot skip rows of ${this.statement}`);
+    }
+
+    let sql = this.orders.length ? this.compileOrders() : '';
+
+    if (this.limitValue !== null) {
+      sql += ` LIMIT ${this.limitValue}`;
+    }
+
+    return sql;
+  }
+}
+
+/**
+ * Another concrete SQL builder, for PostgreSQL. Its placeholders are numbered
+ * (`$1`, `$2`, ...) and it can return the written rows.
+ */
+class PostgresQueryBuilder extends SqlQueryBuilder {
+  protected readonly supportsReturning = true;
+
+  protected wrap(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  protected placeholder(position: number): string {
+    return `$${position}`;
+  }
+
+  /**
+   * PostgreSQL does not accept the aliases of the selected columns in HAVING,
+   * so `count` becomes `COUNT(*)`.
+   */
+  protected compileHavingColumn(col: string): string {
+    const aggregate = this.aggregates.find(({ alias }) => alias === col);
+
+    return aggregate ? this.compileAggregateExpression(aggregate) : super.compileHavingColumn(col);
+  }
+}
+
+/**
+ * Another concrete SQL builder, for SQLite. It has no boolean type and needs a
+ * LIMIT before every OFFSET.
  */
- interface QueryBuilder {
+class SqliteQueryBuilder extends SqlQueryBuilder {
+  protected readonly supportsReturning = true;
+
+  protected wrap(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
   /**
-   * Some methods' output signature is a type of the Builder Interface. This is
-   * useful for implementing the method chaining behavior.
+   * Booleans are stored as 1 and 0, and most SQLite drivers refuse to bind
+   * them as they are.
+   */
+  protected bind(params: Value[], value: Value): string {
+    return super.bind(params, typeof value === 'boolean' ? Number(value) : value);
+  }
+
+  /**
+   * A negative LIMIT means "no limit" to SQLite.
    */
-  table(table): QueryBuilder;
-  select(cols): QueryBuilder;
-  limit(value: Number): QueryBuilder;
-  where(col: string, value: Number|String): QueryBuilder;
+  protected compileLimit(): string {
+    if (this.limitValue === null && this.offsetValue !== null) {
+      return ` LIMIT -1 OFFSET ${this.offsetValue}`;
+    }
 
-  // To get the final result (product)
-  getQuery(): String;
+    return super.compileLimit();
+  }
 
-  /* +100 Other SQL related methods  */
+  /**
+   * SQLite does not accept DEFAULT in VALUES, so every row has to give the
+   * same columns.
+   */
+  protected compileMissingValue(col: string): string {
+    throw new Error(`SQLite needs a value for "${col}" in every inserted row`);
+  }
 }
 
 /**
- * Concrete Builder class. The program may contain several variations of builders
- * that may return totally different type of objects in comparison to another
- * builder.
- * Each concrete builder must follow the Builder Interface and implement its
- * own build steps.
- * This class, for example is a query builder for MySQL.
+ * The final products of the MongoDB builder. Simple queries are shaped after
+ * the arguments of the driver's `find` method, so they can be run with:
+ * `db.collection(query.collection).find(query.filter, query.options)`
+ * Joins and groups are not possible with `find`, so those queries are built as
+ * an aggregation pipeline instead:
+ * `db.collection(query.collection).aggregate(query.pipeline)`
+ */
+interface MongoFindQuery {
+  method: 'find';
+  collection: string;
+  filter: Record<string, unknown>;
+  options: {
+    projection?: Record<string, 0 | 1>;
+    sort?: Record<string, 1 | -1>;
+    skip?: number;
+    limit?: number;
+  };
+}
+
+interface MongoAggregateQuery {
+  method: 'aggregate';
+  collection: string;
+  pipeline: Record<string, unknown>[];
+}
+
+/**
+ * Writes are shaped after the arguments of the driver's methods with the same
+ * names, e.g. `db.collection(query.collection).updateMany(query.filter, query.update)`
+ */
+interface MongoInsertQuery {
+  method: 'insertMany';
+  collection: string;
+  documents: Row[];
+}
+
+interface MongoUpdateQuery {
+  method: 'updateMany';
+  collection: string;
+  filter: Record<string, unknown>;
+  update: { $set: Row };
+}
+
+interface MongoDeleteQuery {
+  method: 'deleteMany';
+  collection: string;
+  filter: Record<string, unknown>;
+}
+
+interface MongoBulkWriteQuery {
+  method: 'bulkWrite';
+  collection: string;
+  operations: Array<{
+    updateOne: {
+      filter: Record<string, unknown>;
+      update: { $set?: Row, $setOnInsert?: Row };
+      upsert: true;
+    };
+  }>;
+}
+
+type MongoQuery =
+  | MongoFindQuery
+  | MongoAggregateQuery
+  | MongoInsertQuery
+  | MongoUpdateQuery
+  | MongoDeleteQuery
+  | MongoBulkWriteQuery;
+
+/**
+ * Another concrete builder. Concrete builders implement Builder Interface so
+ * they contain similar methods. But the final product may totally be different
+ * from the final product of another builder (e.g. MySQL queries are totally
+ * different from MongoDB queries). Although the client may not be aware of what
+ * kind of builder is working with.
  */
-class MySqlQueryBuilder implements QueryBuilder {
+class MongoDbQueryBuilder extends BaseQueryBuilder<MongoQuery> {
+  public getQuery(): MongoQuery {
+    this.assertBuildable();
+
+    switch (this.statement) {
+      case 'select': return this.buildRead();
+      case 'insert': return this.buildInsert();
+      case 'update': return this.buildUpdate();
+      case 'delete': return this.buildDelete();
+      case 'upsert': return this.buildUpsert();
+    }
+  }
+
+  private buildRead(): MongoFindQuery | MongoAggregateQuery {
+    if (this.joins.length || this.isGrouped()) {
+      return {
+        method: 'aggregate',
+        collection: this.tableName,
+        pipeline: this.buildPipeline(),
+      };
+    }
+
+    const query: MongoFindQuery = {
+      method: 'find',
+      collection: this.tableName,
+      filter: this.buildFilter(this.wheres.conditions),
+      options: {},
+    };
+
+    if (this.columns.length) {
+      query.options.projection = this.buildProjection();
+    }
+
+    if (this.orders.length) {
+      query.options.sort = this.buildSort();
+    }
+
+    if (this.offsetValue !== null) {
+      query.options.skip = this.offsetValue;
+    }
+
+    if (this.limitValue !== null) {
+      query.options.limit = this.limitValue;
+    }
+
+    return query;
+  }
+
+  private buildInsert(): MongoInsertQuery {
+    return {
+      method: 'insertMany',
+      collection: this.tableName,
+      documents: this.rows,
+    };
+  }
+
+  private buildUpdate(): MongoUpdateQuery {
+    this.assertUnlimited();
+
+    const values: Row = {};
+
+    for (const col of Object.keys(this.values)) {
+      values[this.field(col)] = this.values[col];
+    }
+
+    return {
+      method: 'updateMany',
+      collection: this.tableName,
+      filter: this.buildFilter(this.wheres.conditions),
+      update: { $set: values },
+    };
+  }
+
+  private buildDelete(): MongoDeleteQuery {
+    this.assertUnlimited();
+
+    return {
+      method: 'deleteMany',
+      collection: this.tableName,
+      filter: this.buildFilter(this.wheres.conditions),
+    };
+  }
+
   /**
-   * At the end, every builder returns its result. The result is also called
-   * Product. The result of a SQL query builder, is a valid string of SQL query.
+   * Each row becomes an `updateOne` with `upsert: true`, matched by its
+   * `uniqueBy` values. The update columns are set on every write, while the
+   * others are only set when the document is inserted.
    */
-  private query: String;
-  private tableName: String;
+  private buildUpsert(): MongoBulkWriteQuery {
+    const operations = this.rows.map(row => {
+      const filter: Record<string, unknown> = {};
+      const set: Row = {};
+      const setOnInsert: Row = {};
+
+      for (const col of Object.keys(row)) {
+        if (this.uniqueBy.includes(col)) {
+          filter[col] = row[col];
+        } else if (this.updateColumns.includes(col)) {
+          set[col] = row[col];
+        } else {
+          setOnInsert[col] = row[col];
+        }
+      }
+
+      const update: { $set?: Row, $setOnInsert?: Row } = {};
+
+      if (Object.keys(set).length) {
+        update.$set = set;
+      }
+
+      if (Object.keys(setOnInsert).length) {
+        update.$setOnInsert = setOnInsert;
+      }
+
+      return { updateOne: { filter, update, upsert: true as const } };
+    });
+
+    return {
+      method: 'bulkWrite',
+      collection: this.tableName,
+      operations,
+    };
+  }
 
   /**
-   * Each instance of a builder, should be created
-   * with a raw and empty query (Product)
+   * `updateMany` and `deleteMany` always touch every matched document, so a
+   * limit cannot be honored.
    */
-  public constructor() {
-    this.query = "";
+  private assertUnlimited(): void {
+    if (this.limitValue !== null || this.offsetValue !== null) {
+      throw new Error(`MongoDB cannot limit the documents of ${this.statement}`);
+    }
   }
 
   /**
-   * We do "return this" to implement the method chaining behavior.
+   * The stages follow the order in which SQL evaluates its clauses: joins,
+   * where, group by, having, order by, offset and limit.
    */
-  public table(table): QueryBuilder {
-    this.tableName = table;
+  private buildPipeline(): Record<string, unknown>[] {
+    const pipeline: Record<string, unknown>[] = [];
 
-    return this;
+    for (const join of this.joins) {
+      // The joined documents are stored under the name of the joined table,
+      // so `users.name` keeps pointing to the same value as it does in SQL.
+      pipeline.push({
+        $lookup: {
+          from: join.table,
+          localField: this.field(join.first),
+          foreignField: join.second.replace(`${join.table}.`, ''),
+          as: join.table,
+        },
+      });
+
+      // $lookup always produces an array. Unwinding it gives one document per
+      // match, and an inner join also drops the documents without a match.
+      pipeline.push({
+        $unwind: { path: `$${join.table}`, preserveNullAndEmptyArrays: join.type === 'LEFT' },
+      });
+    }
+
+    const filter = this.buildFilter(this.wheres.conditions);
+
+    if (Object.keys(filter).length) {
+      pipeline.push({ $match: filter });
+    }
+
+    if (this.isGrouped()) {
+      pipeline.push(...this.buildGroupStages());
+    }
+
+    if (this.orders.length) {
+      pipeline.push({ $sort: this.buildSort() });
+    }
+
+    if (this.offsetValue !== null) {
+      pipeline.push({ $skip: this.offsetValue });
+    }
+
+    if (this.limitValue !== null) {
+      pipeline.push({ $limit: this.limitValue });
+    }
+
+    if (!this.isGrouped() && this.columns.length) {
+      pipeline.push({ $project: this.buildProjection() });
+    }
+
+    return pipeline;
   }
 
-  public select(cols): QueryBuilder {
-    /** ... */
-    return this;
+  /**
+   * $group keeps the grouped fields under `_id`, so a $project stage follows it
+   * to bring them back next to the aggregates, as flat columns like in SQL.
+   */
+  private buildGroupStages(): Record<string, unknown>[] {
+    const keys: Record<string, string> = {};
+    const group: Record<string, unknown> = {};
+    const project: Record<string, unknown> = { _id: 0 };
+
+    for (const col of this.groups) {
+      keys[this.baseName(col)] = `$${this.field(col)}`;
+    }
+
+    group._id = this.groups.length ? keys : null;
+
+    for (const col of this.columns.length ? this.columns : this.groups) {
+      project[this.baseName(col)] = `$_id.${this.baseName(col)}`;
+    }
+
+    for (const aggregate of this.aggregates) {
+      group[aggregate.alias] = this.buildAccumulator(aggregate);
+      project[aggregate.alias] = 1;
+    }
+
+    const stages: Record<string, unknown>[] = [{ $group: group }, { $project: project }];
+    const having = this.buildFilter(this.havings.conditions);
+
+    if (Object.keys(having).length) {
+      stages.push({ $match: having });
+    }
+
+    return stages;
   }
 
-  public limit(value: Number): QueryBuilder {
-    /** ... */
-    return this;
+  private buildAccumulator({ fn, col }: Aggregate): Record<string, unknown> {
+    switch (fn) {
+      case 'COUNT':
+        // Just like SQL, counting a column skips the documents where it is
+        // null or missing. Both are sorted before any other value.
+        return col === '*'
+          ? { $sum: 1 }
+          : { $sum: { $cond: [{ $gt: [`$${this.field(col)}`, null] }, 1, 0] } };
+      case 'SUM':
+        return { $sum: `$${this.field(col)}` };
+      case 'AVG':
+        return { $avg: `$${this.field(col)}` };
+    }
   }
 
-  public where(col, value): QueryBuilder {
-    /** ... */
-    return this;
+  private buildProjection(): Record<string, 0 | 1> {
+    const projection: Record<string, 0 | 1> = {};
+
+    for (const col of this.columns) {
+      projection[this.field(col)] = 1;
+    }
+
+    // MongoDB always returns `_id` unless it is excluded explicitly. We hide
+    // it to get the same columns as the SQL builders.
+    if (!this.columns.includes('_id')) {
+      projection._id = 0;
+    }
+
+    return projection;
+  }
+
+  /**
+   * After grouping, the documents only contain the flattened group columns and
+   * the aggregates, so the sort refers to them by their short names.
+   */
+  private buildSort(): Record<string, 1 | -1> {
+    const sort: Record<string, 1 | -1> = {};
+
+    for (const { col, direction } of this.orders) {
+      sort[this.isGrouped() ? this.baseName(col) : this.field(col)] = direction === 'ASC' ? 1 : -1;
+    }
+
+    return sort;
+  }
+
+  private isGrouped(): boolean {
+    return this.groups.length > 0 || this.aggregates.length > 0;
+  }
+
+  /**
+   * Documents of the queried collection have no prefix, so `posts.title` is
+   * just `title`. Fields of joined collections keep their prefix.
+   */
+  private field(col: string): string {
+    return col.startsWith(`${this.tableName}.`)
+      ? col.slice(this.tableName.length + 1)
+      : col;
+  }
+
+  /**
+   * MongoDB has no operator precedence, so the conditions are split into runs
+   * of AND-ed conditions, separated by each OR, just like SQL evaluates them:
+   * `a AND b OR c` becomes `{ $or: [{ a, b }, { c }] }`.
+   */
+  private buildFilter(conditions: Condition[]): Record<string, unknown> {
+    const runs: Record<string, unknown>[][] = [];
+
+    for (const condition of conditions) {
+      const filter = this.buildCondition(condition);
+
+      if (!filter) {
+        continue;
+      }
+
+      if (condition.boolean === 'OR' && runs.length) {
+        runs.push([filter]);
+      } else if (runs.length) {
+        runs[runs.length - 1].push(filter);
+      } else {
+        runs.push([filter]);
+      }
+    }
+
+    if (runs.length > 1) {
+      return { $or: runs.map(run => this.mergeFilters(run)) };
+    }
+
+    return runs.length ? this.mergeFilters(runs[0]) : {};
   }
 
-  public getQuery(): String {
-    return 'This is a MySQL query';
+  private buildCondition(condition: Condition): Record<string, unknown> {
+    switch (condition.type) {
+      case 'basic': {
+        const { operator, value } = condition;
+        const col = this.field(condition.col);
+
+        switch (operator) {
+          case '=': return { [col]: value };
+          case '!=':
+          case '<>': return { [col]: { $ne: value } };
+          case '<': return { [col]: { $lt: value } };
+          case '<=': return { [col]: { $lte: value } };
+          case '>': return { [col]: { $gt: value } };
+          case '>=': return { [col]: { $gte: value } };
+          case 'LIKE': return { [col]: this.likeToRegex(value) };
+          case 'NOT LIKE': return { [col]: { $not: this.likeToRegex(value) } };
+        }
+      }
+
+      case 'in':
+        return { [this.field(condition.col)]: { [condition.not ? '$nin' : '$in']: condition.values } };
+
+      case 'null':
+        return { [this.field(condition.col)]: condition.not ? { $ne: null } : null };
+
+      case 'between':
+        return { [this.field(condition.col)]: { $gte: condition.range[0], $lte: condition.range[1] } };
+
+      case 'group': {
+        const filter = this.buildFilter(condition.conditions);
+
+        return Object.keys(filter).length ? filter : null;
+      }
+    }
+  }
+
+  /**
+   * AND-ed filters on distinct fields are merged into a single document. If a
+   * field is filtered more than once, merging would overwrite the earlier
+   * filter, so they are wrapped in `$and` instead.
+   */
+  private mergeFilters(filters: Record<string, unknown>[]): Record<string, unknown> {
+    if (filters.length === 1) {
+      return filters[0];
+    }
+
+    const keys = filters.flatMap(filter => Object.keys(filter));
+
+    if (new Set(keys).size !== keys.length) {
+      return { $and: filters };
+    }
+
+    return Object.assign({}, ...filters);
+  }
+
+  /**
+   * Translates the `%` and `_` wildcards of SQL's LIKE into an anchored
+   * regular expression. Like MySQL's default collations, it ignores case.
+   */
+  private likeToRegex(pattern: Value): { $regex: string, $options: string } {
+    const regex = String(pattern)
+      .split('')
+      .map(char => {
+        if (char === '%') return '.*';
+        if (char === '_') return '.';
+
+        return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    return { $regex: `^${regex}$`, $options: 'i' };
   }
 }
 
 /**
- * Another concrete builder. Concrete builders implement Builder Interface so
- * they contain similar methods. But the final product may totally be different
- * from the final product of another builder (e.g. MySQL queries are totally
- * different from MongoDB queries). Although the client may not be aware of what
- * kind of builder is working with.
+ * The stages of the pipelines the MongoDB builder produces, as the in-memory
+ * driver reads them.
  */
-class MongoDbQueryBuilder implements QueryBuilder {
-  private query: String;
-  private tableName: String;
+type PipelineStage =
+  | { $match: Record<string, unknown> }
+  | { $lookup: { from: string, localField: string, foreignField: string, as: string } }
+  | { $unwind: { path: string, preserveNullAndEmptyArrays: boolean } }
+  | { $group: Record<string, unknown> }
+  | { $project: Record<string, unknown> }
+  | { $sort: Record<string, 1 | -1> }
+  | { $skip: number }
+  | { $limit: number };
 
-  public constructor() {
-    this.query = '';
+/**
+ * A driver that keeps the collections in memory and runs the products of the
+ * MongoDB builder against them, reads and writes alike. It is enough to run
+ * the queries of the MongoDB builder end-to-end in tests and examples without
+ * a real database. Writes return the documents they have written or deleted.
+ * The SQL builders produce SQL text, which this driver does not understand;
+ * they need a driver around a real database client, such as an in-process
+ * SQLite database in tests.
+ */
+class InMemoryDriver implements Driver<MongoQuery> {
+  public constructor(private collections: Record<string, Result[]> = {}) {}
+
+  public async execute(query: MongoQuery): Promise<Result[]> {
+    const documents = this.collections[query.collection] ?? [];
+
+    switch (query.method) {
+      case 'find': return this.find(documents, query);
+      case 'aggregate': return this.aggregate(documents, query.pipeline as PipelineStage[]);
+      case 'insertMany': return this.insert(query.collection, query.documents);
+      case 'updateMany': return this.update(documents, query.filter, query.update.$set);
+      case 'deleteMany': return this.delete(query.collection, query.filter);
+      case 'bulkWrite': return this.bulkWrite(query);
+    }
   }
 
-  public table(table): QueryBuilder {
-    this.tableName = table;
+  private insert(collection: string, documents: Row[]): Result[] {
+    const inserted = documents.map(document => ({ ...document }));
 
-    return this;
+    this.collections[collection] = [...(this.collections[collection] ?? []), ...inserted];
+
+    return inserted;
   }
 
-  public select(cols): QueryBuilder {
-    /** ... */
-    return this;
+  private update(documents: Result[], filter: Record<string, unknown>, values: Row = {}): Result[] {
+    const updated = documents.filter(document => this.matches(document, filter));
+
+    for (const document of updated) {
+      for (const key of Object.keys(values)) {
+        this.write(document, key, values[key]);
+      }
+    }
+
+    return updated;
   }
 
-  public limit(value: Number): QueryBuilder {
-    /** ... */
-    return this;
+  private delete(collection: string, filter: Record<string, unknown>): Result[] {
+    const documents = this.collections[collection] ?? [];
+    const deleted = documents.filter(document => this.matches(document, filter));
+
+    this.collections[collection] = documents.filter(document => !deleted.includes(document));
+
+    return deleted;
   }
 
-  public where(col, value): QueryBuilder {
-    /** ... */
-    return this;
+  /**
+   * Runs the upserts of the builder: the first document matching the filter
+   * is updated, or a new one is made of the filter and both kinds of values.
+   */
+  private bulkWrite({ collection, operations }: MongoBulkWriteQuery): Result[] {
+    return operations.map(({ updateOne: { filter, update } }) => {
+      const existing = (this.collections[collection] ?? []).find(document => this.matches(document, filter));
+
+      if (existing) {
+        return this.update([existing], {}, update.$set)[0];
+      }
+
+      return this.insert(collection, [{ ...filter as Row, ...update.$setOnInsert, ...update.$set }])[0];
+    });
+  }
+
+  private find(documents: Result[], { filter, options }: MongoFindQuery): Result[] {
+    let result = documents.filter(document => this.matches(document, filter));
+
+    if (options.sort) {
+      result = this.sort(result, options.sort);
+    }
+
+    result = result.slice(options.skip ?? 0);
+
+    if (options.limit !== undefined) {
+      result = result.slice(0, options.limit);
+    }
+
+    return options.projection
+      ? result.map(document => this.project(document, options.projection))
+      : result;
+  }
+
+  private aggregate(documents: Result[], pipeline: PipelineStage[]): Result[] {
+    return pipeline.reduce<Result[]>((result, stage) => {
+      if ('$match' in stage) return result.filter(document => this.matches(document, stage.$match));
+      if ('$lookup' in stage) return this.lookup(result, stage.$lookup);
+      if ('$unwind' in stage) return this.unwind(result, stage.$unwind);
+      if ('$group' in stage) return this.group(result, stage.$group);
+      if ('$project' in stage) return result.map(document => this.project(document, stage.$project));
+      if ('$sort' in stage) return this.sort(result, stage.$sort);
+      if ('$skip' in stage) return result.slice(stage.$skip);
+      if ('$limit' in stage) return result.slice(0, stage.$limit);
+
+      throw new Error(`InMemoryDriver cannot run the ${Object.keys(stage)[0]} stage`);
+    }, documents);
+  }
+
+  private matches(document: Result, filter: Record<string, unknown>): boolean {
+    return Object.keys(filter).every(key => {
+      if (key === '$and') {
+        return (filter.$and as Record<string, unknown>[]).every(part => this.matches(document, part));
+      }
+
+      if (key === '$or') {
+        return (filter.$or as Record<string, unknown>[]).some(part => this.matches(document, part));
+      }
+
+      return this.matchesValue(this.read(document, key), filter[key]);
+    });
+  }
+
+  /**
+   * A condition is either a value to be equal to, or a document of operators
+   * like `{ $gt: 10, $lte: 20 }`.
+   */
+  private matchesValue(value: unknown, condition: unknown): boolean {
+    const isOperators = condition !== null
+      && typeof condition === 'object'
+      && Object.keys(condition).every(key => key.startsWith('$'));
+
+    if (!isOperators) {
+      return this.equals(value, condition);
+    }
+
+    const operators = condition as Record<string, unknown>;
+
+    return Object.keys(operators).every(operator => {
+      const operand = operators[operator];
+
+      switch (operator) {
+        case '$ne': return !this.equals(value, operand);
+        case '$gt': return this.isComparable(value, operand) && this.compare(value, operand) > 0;
+        case '$gte': return this.isComparable(value, operand) && this.compare(value, operand) >= 0;
+        case '$lt': return this.isComparable(value, operand) && this.compare(value, operand) < 0;
+        case '$lte': return this.isComparable(value, operand) && this.compare(value, operand) <= 0;
+        case '$in': return (operand as unknown[]).some(item => this.equals(value, item));
+        case '$nin': return !(operand as unknown[]).some(item => this.equals(value, item));
+        case '$not': return !this.matchesValue(value, operand);
+        case '$regex':
+          return typeof value === 'string'
+            && new RegExp(operand as string, operators.$options as string).test(value);
+        case '$options': return true;
+        default:
+          throw new Error(`InMemoryDriver cannot run the ${operator} operator`);
+      }
+    });
+  }
+
+  private lookup(documents: Result[], spec: { from: string, localField: string, foreignField: string, as: string }): Result[] {
+    const foreign = this.collections[spec.from] ?? [];
+
+    return documents.map(document => ({
+      ...document,
+      [spec.as]: foreign.filter(item => this.equals(
+        this.read(item, spec.foreignField),
+        this.read(document, spec.localField),
+      )),
+    }));
+  }
+
+  private unwind(documents: Result[], spec: { path: string, preserveNullAndEmptyArrays: boolean }): Result[] {
+    const field = spec.path.slice(1);
+
+    return documents.flatMap(document => {
+      const items = document[field] as Result[];
+
+      if (!items.length) {
+        return spec.preserveNullAndEmptyArrays ? [{ ...document, [field]: null }] : [];
+      }
+
+      return items.map(item => ({ ...document, [field]: item }));
+    });
+  }
+
+  private group(documents: Result[], spec: Record<string, unknown>): Result[] {
+    const groups = new Map<string, Result[]>();
+
+    for (const document of documents) {
+      const key = JSON.stringify(this.evaluate(spec._id, document));
+
+      groups.set(key, [...(groups.get(key) ?? []), document]);
+    }
+
+    return [...groups.values()].map(members => {
+      const result: Result = { _id: this.evaluate(spec._id, members[0]) };
+
+      for (const field of Object.keys(spec).filter(key => key !== '_id')) {
+        const accumulators = spec[field] as Record<string, unknown>;
+        const [accumulator] = Object.keys(accumulators);
+        const values = members
+          .map(member => this.evaluate(accumulators[accumulator], member))
+          .filter(value => typeof value === 'number') as number[];
+        const sum = values.reduce((total, value) => total + value, 0);
+
+        result[field] = accumulator === '$avg'
+          ? (values.length ? sum / values.length : null)
+          : sum;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Projections either include a field with `1`, exclude it with `0`, or
+   * compute it from a `$field` path.
+   */
+  private project(document: Result, projection: Record<string, unknown>): Result {
+    const result: Result = {};
+
+    if (projection._id !== 0 && document._id !== undefined) {
+      result._id = document._id;
+    }
+
+    for (const key of Object.keys(projection)) {
+      const value = projection[key] === 1 ? this.read(document, key) : this.evaluate(projection[key], document);
+
+      if (projection[key] !== 0 && value !== undefined) {
+        this.write(result, key, value);
+      }
+    }
+
+    return result;
+  }
+
+  private sort(documents: Result[], sort: Record<string, 1 | -1>): Result[] {
+    return [...documents].sort((a, b) => {
+      for (const key of Object.keys(sort)) {
+        const order = this.compare(this.read(a, key), this.read(b, key));
+
+        if (order !== 0) {
+          return order * sort[key];
+        }
+      }
+
+      return 0;
+    });
+  }
+
+  /**
+   * Evaluates the few aggregation expressions the builder produces: field
+   * paths, literals, documents of expressions, `$cond` and `$gt`.
+   */
+  private evaluate(expression: unknown, document: Result): unknown {
+    if (typeof expression === 'string' && expression.startsWith('$')) {
+      return this.read(document, expression.slice(1));
+    }
+
+    if (expression === null || typeof expression !== 'object') {
+      return expression;
+    }
+
+    const operators = expression as Record<string, unknown>;
+
+    if (operators.$cond) {
+      const [condition, then, otherwise] = operators.$cond as unknown[];
+
+      return this.evaluate(condition, document)
+        ? this.evaluate(then, document)
+        : this.evaluate(otherwise, document);
+    }
+
+    if (operators.$gt) {
+      const [left, right] = (operators.$gt as unknown[]).map(part => this.evaluate(part, document));
+
+      return this.compare(left, right) > 0;
+    }
+
+    const result: Result = {};
+
+    for (const key of Object.keys(operators)) {
+      result[key] = this.evaluate(operators[key], document);
+    }
+
+    return result;
+  }
+
+  /**
+   * Like MongoDB, a missing field sorts before null and null sorts before any
+   * other value.
+   */
+  private compare(a: unknown, b: unknown): number {
+    const rank = (value: unknown) => value === undefined ? 0 : value === null ? 1 : 2;
+
+    if (rank(a) !== 2 || rank(b) !== 2) {
+      return rank(a) - rank(b);
+    }
+
+    return (a as Value) < (b as Value) ? -1 : (a as Value) > (b as Value) ? 1 : 0;
+  }
+
+  private isComparable(value: unknown, operand: unknown): boolean {
+    return value !== null && value !== undefined && typeof value === typeof operand;
   }
 
-  public getQuery(): String {
-    return 'This is a MongoDB query';
+  /**
+   * Like MongoDB, a null condition also matches missing fields.
+   */
+  private equals(value: unknown, expected: unknown): boolean {
+    if (expected === null) {
+      return value === null || value === undefined;
+    }
+
+    return value === expected;
+  }
+
+  private read(document: Result, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+      (value, key) => value === null || typeof value !== 'object' ? undefined : (value as Result)[key],
+      document,
+    );
+  }
+
+  private write(document: Result, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const last = keys.pop();
+    let target = document;
+
+    for (const key of keys) {
+      target[key] = target[key] ?? {};
+      target = target[key] as Result;
+    }
+
+    target[last] = value;
   }
 }
 
@@ -144,7 +1890,7 @@ function client(builder: QueryBuilder) {
     .select(['id', 'title'])
     .getQuery();
 
-  console.log(query);
+  console.dir(query, { depth: null });
 }
 
 /**
@@ -153,12 +1899,73 @@ function client(builder: QueryBuilder) {
  */
 const config = {
   database1: MongoDbQueryBuilder,
-  database2: MySqlQueryBuilder
+  database2: MySqlQueryBuilder,
+  database3: PostgresQueryBuilder,
+  database4: SqliteQueryBuilder,
 }
 
 // Client uses MongoDB:
-client(new config.database1); // This is a MongoDB query
+client(new config.database1);
+// {
+//   method: 'find',
+//   collection: 'posts',
+//   filter: { id: 429 },
+//   options: { projection: { id: 1, title: 1, _id: 0 }, limit: 10 }
+// }
 
 // Client uses MySQL:
-client(new config.database2); // This is a MySQL query
+client(new config.database2);
+// {
+//   sql: 'SELECT `id`, `title` FROM `posts` WHERE `id` = ? LIMIT 10',
+//   params: [429]
+// }
+
+
+// Client uses PostgreSQL:
+client(new config.database3);
+// {
+//   sql: 'SELECT "id", "title" FROM "posts" WHERE "id" = $1 LIMIT 10',
+//   params: [429]
+// }
+
+// Client uses SQLite:
+client(new config.database4);
+// {
+//   sql: 'SELECT "id", "title" FROM "posts" WHERE "id" = ? LIMIT 10',
+//   params: [429]
+// }
+
+/**
+ * With a driver, the builders can also run their queries. Here the in-memory
+ * driver plays the role of MongoDB:
+ */
+const db = new InMemoryDriver({
+  posts: [
+    { id: 1, title: 'Builder', views: 120 },
+    { id: 2, title: 'Singleton', views: 80 },
+    { id: 3, title: 'Proxy', views: 300 },
+  ],
+});
+
+new MongoDbQueryBuilder(db)
+  .table('posts')
+  .where('views', '>', 100)
+  .select(['id', 'title'])
+  .orderBy('views', 'DESC')
+  .paginate(1, 10)
+  .then(page => console.dir(page, { depth: null }));
+// {
+//   data: [{ id: 3, title: 'Proxy' }, { id: 1, title: 'Builder' }],
+//   total: 2,
+//   page: 1,
+//   perPage: 10,
+//   lastPage: 1
+// }
 
+// Writes run the same way, so the data can be prepared by the builders too:
+new MongoDbQueryBuilder(db)
+  .table('posts')
+  .where('id', 2)
+  .update({ views: 90 })
+  .get()
+  .then(rows => console.log(rows)); // [{ id: 2, title: 'Singleton', views: 90 }]
@@ -14,6 +14,345 @@
  */
 
 
+/**
+ * The application configuration. In a real application these values would be
+ * loaded from the environment.
+ */
+const configuration: Record<string, any> = {
+  app_locale: 'en',
+  sms: {
+    driver: 'log',
+    client_id: 'client-id',
+    client_secret: 'client-secret',
+    // The country of the numbers that are written without a country code
+    default_country_code: '98',
+  },
+};
+
+/**
+ * Reads a configuration value by its dotted path, e.g. `config('sms.driver')`.
+ * Passing an object of paths and values sets them instead:
+ * `config({ 'sms.driver': 'memory' })`
+ */
+function config(key: string, defaultValue?: any): any;
+function config(values: Record<string, any>): void;
+function config(key: string | Record<string, any>, defaultValue?: any): any {
+  if (typeof key !== 'string') {
+    for (const path of Object.keys(key)) {
+      const parts = path.split('.');
+      const last = parts.pop();
+      let target = configuration;
+
+      for (const part of parts) {
+        target = target[part] = target[part] ?? {};
+      }
+
+      target[last] = key[path];
+    }
+
+    return;
+  }
+
+  const value = key.split('.').reduce(
+    (target, part) => target === null || target === undefined ? undefined : target[part],
+    configuration,
+  );
+
+  return value === undefined ? defaultValue : value;
+}
+
+/**
+ * The complex system behind the facade: a SMS library that delivers the
+ * messages through a configurable driver.
+ */
+interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+interface SmsDriver {
+  send(message: SmsMessage): void;
+}
+
+interface SmsCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+type SmsDriverFactory = (credentials: SmsCredentials) => SmsDriver;
+
+/**
+ * Writes the messages to the console instead of sending them. Useful during
+ * development.
+ */
+class LogSmsDriver implements SmsDriver {
+  public send(message: SmsMessage) {
+    console.log(`[SMS] To ${message.to}: ${message.text}`);
+  }
+}
+
+/**
+ * Keeps the messages in memory, so they can be inspected later.
+ */
+class MemorySmsDriver implements SmsDriver {
+  public readonly messages: SmsMessage[] = [];
+
+  public send(message: SmsMessage) {
+    this.messages.push(message);
+  }
+}
+
+class SmsLibrary {
+  /**
+   * The factories of the supported drivers. More drivers can be added with
+   * `SmsLibrary.extend`.
+   */
+  private static factories: Record<string, SmsDriverFactory> = {
+    log: () => new LogSmsDriver(),
+    memory: () => new MemorySmsDriver(),
+  };
+
+  /**
+   * Drivers are created once per name and credentials, and shared by every
+   * instance of the library that uses them, so the messages of the memory
+   * driver outlive the library that sent them. New credentials get a new
+   * driver instead of the one made with the old credentials.
+   */
+  private static drivers: Record<string, Map<string, SmsDriver>> = {};
+
+  private driver: SmsDriver;
+  private to: string = null;
+
+  public constructor(clientId: string, clientSecret: string, driver: string) {
+    this.driver = SmsLibrary.driver(driver, { clientId, clientSecret });
+  }
+
+  /**
+   * Registers a custom driver, e.g. one for a real SMS provider.
+   */
+  public static extend(name: string, factory: SmsDriverFactory) {
+    this.factories[name] = factory;
+    delete this.drivers[name];
+  }
+
+  public static driver(name: string, credentials: SmsCredentials): SmsDriver {
+    if (!this.factories[name]) {
+      throw new Error(`SMS driver [${name}] is not supported`);
+    }
+
+    const drivers = this.drivers[name] = this.drivers[name] ?? new Map();
+    const key = JSON.stringify([credentials.clientId, credentials.clientSecret]);
+
+    if (!drivers.has(key)) {
+      drivers.set(key, this.factories[name](credentials));
+    }
+
+    return drivers.get(key);
+  }
+
+  public recipient(to: string) {
+    this.to = to;
+  }
+
+  public send(text: string) {
+    if (!this.to) {
+      throw new Error('The recipient of the SMS is not specified');
+    }
+
+    this.driver.send({ to: this.to, text });
+  }
+}
+
+/**
+ * The calling codes of the supported countries and the lengths their national
+ * numbers can have. Numbers of other countries are rejected.
+ */
+const COUNTRY_CODES: Record<string, { country: string, lengths: number[] }> = {
+  '1': { country: 'US/CA', lengths: [10] },
+  '7': { country: 'RU', lengths: [10] },
+  '33': { country: 'FR', lengths: [9] },
+  '44': { country: 'GB', lengths: [10] },
+  '49': { country: 'DE', lengths: [10, 11] },
+  '61': { country: 'AU', lengths: [9] },
+  '81': { country: 'JP', lengths: [9, 10] },
+  '86': { country: 'CN', lengths: [11] },
+  '90': { country: 'TR', lengths: [10] },
+  '91': { country: 'IN', lengths: [10] },
+  '98': { country: 'IR', lengths: [10] },
+  '971': { country: 'AE', lengths: [8, 9] },
+};
+
+class InvalidPhoneNumberError extends Error {
+  public constructor(public readonly recipient: string, public readonly reason: string) {
+    super(`Invalid phone number "${recipient}": ${reason}`);
+    this.name = 'InvalidPhoneNumberError';
+  }
+}
+
+class PhoneNumber {
+  /**
+   * Normalizes a phone number to the E.164 format, e.g. `+989121234567`.
+   * Spaces, dashes, dots and parentheses are ignored, `00` is accepted as the
+   * international prefix, and numbers without a country code (starting with the
+   * trunk prefix `0`) belong to the default country.
+   */
+  public static normalize(recipient: string, defaultCountryCode?: string): string {
+    let digits = recipient.replace(/[\s\-.()]/g, '');
+
+    if (/^(\+|00)/.test(digits)) {
+      digits = digits.replace(/^\+?(00)?/, '');
+    } else if (defaultCountryCode && digits.startsWith('0')) {
+      digits = defaultCountryCode + digits.slice(1);
+    } else {
+      throw new InvalidPhoneNumberError(recipient, 'the country code is missing');
+    }
+
+    if (!/^\d+$/.test(digits)) {
+      throw new InvalidPhoneNumberError(recipient, 'it may only contain digits');
+    }
+
+    // Calling codes are prefix-free, so at most one of them can match
+    const code = [1, 2, 3]
+      .map(length => digits.slice(0, length))
+      .find(prefix => COUNTRY_CODES[prefix]);
+
+    if (!code) {
+      throw new InvalidPhoneNumberError(recipient, 'the country code is not supported');
+    }
+
+    const { country, lengths } = COUNTRY_CODES[code];
+
+    if (!lengths.includes(digits.length - code.length)) {
+      throw new InvalidPhoneNumberError(recipient, `it is not a valid number of ${country}`);
+    }
+
+    return `+${digits}`;
+  }
+}
+
+/**
+ * How a text is encoded and into how many SMS it is split.
+ */
+interface SmsSegments {
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;
+  segments: number;
+}
+
+class SmsEncoding {
+  /**
+   * The GSM-7 alphabet. The characters of the extension table are sent with
+   * an escape character, so each of them takes two places.
+   */
+  private static readonly BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?'
+    + '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+  private static readonly EXTENDED = '\f^{}\\[~]|€';
+
+  /**
+   * Texts that fit in the GSM-7 alphabet take 160 characters per SMS. Any
+   * other character turns the whole text into UCS-2, which only takes 70. When
+   * a text is split, each part loses some room to the header that joins them.
+   */
+  public static count(text: string): SmsSegments {
+    const characters = [...text];
+    const isGsm = characters.every(char => this.BASIC.includes(char) || this.EXTENDED.includes(char));
+
+    if (isGsm) {
+      const length = characters.reduce((total, char) => total + (this.EXTENDED.includes(char) ? 2 : 1), 0);
+
+      return { encoding: 'GSM-7', length, segments: this.segments(length, 160, 153) };
+    }
+
+    // UCS-2 counts UTF-16 code units, so characters like emojis take two
+    return { encoding: 'UCS-2', length: text.length, segments: this.segments(text.length, 70, 67) };
+  }
+
+  private static segments(length: number, single: number, multipart: number): number {
+    if (length <= single) {
+      return 1;
+    }
+
+    return Math.ceil(length / multipart);
+  }
+}
+
+/**
+ * Named messages with a variant per locale. Variables are written as `{name}`
+ * and are filled in when the message is rendered.
+ */
+class SmsTemplates {
+  private static templates: Record<string, Record<string, string>> = {};
+
+  public static register(name: string, variants: Record<string, string>) {
+    this.templates[name] = { ...this.templates[name], ...variants };
+  }
+
+  /**
+   * Finds the variant of the locale, falling back to its language (`fa` for
+   * `fa-IR`) and then to the application locale.
+   */
+  public static render(name: string, variables: Record<string, string | number>, locale?: string): string {
+    const variants = this.templates[name];
+
+    if (!variants) {
+      throw new Error(`SMS template [${name}] is not registered`);
+    }
+
+    const appLocale = config('app_locale');
+    const candidates = [locale, locale?.split('-')[0], appLocale].filter(Boolean);
+    const found = candidates.find(candidate => variants[candidate] !== undefined);
+
+    if (!found) {
+      throw new Error(`SMS template [${name}] has no variant for the "${locale ?? appLocale}" locale`);
+    }
+
+    return variants[found].replace(/\{(\w+)\}/g, (_, variable) => {
+      if (variables[variable] === undefined) {
+        throw new Error(`SMS template [${name}] needs the "${variable}" variable`);
+      }
+
+      return String(variables[variable]);
+    });
+  }
+}
+
+/**
+ * The result of sending a message to several recipients at once.
+ */
+interface BulkSmsResult {
+  sent: string[];
+  rejected: Array<{ recipient: string, reason: string }>;
+}
+
+/**
+ * The part of the library's interface that the facade works with.
+ */
+interface SmsSender {
+  recipient(to: string): void;
+  send(text: string): void;
+}
+
+/**
+ * A stand-in for the SMS library that records the messages instead of sending
+ * them, and lets the tests make assertions about them.
+ */
+class SmsRecorder implements SmsSender {
+  public readonly messages: SmsMessage[] = [];
+  private to: string = null;
+
+  public recipient(to: string) {
+    this.to = to;
+  }
+
+  public send(text: string) {
+    this.messages.push({ to: this.to, text });
+  }
+
+  public sentTo(recipient: string, predicate: (text: string) => boolean = () => true): SmsMessage[] {
+    return this.messages.filter(message => message.to === recipient && predicate(message.text));
+  }
+}
+
 /**
  * Facade Class
  * Facade class constructs the desired object within itself and provides a simple
@@ -22,20 +361,132 @@
  * 
  */
 class SmsFacade {
+  /**
+   * When the facade is faked, the messages go to this recorder instead of the
+   * SMS library.
+   */
+  private static recorder: SmsRecorder = null;
+
   /**
    * The send method only takes the required arguments from the client.
    * The complexities of initializing and constructing the SMS library are never
    * exposed to the client.
    */
-  public static send(text, recipient) {
+  public static send(text: string, recipient: string) {
+    const to = this.normalize(recipient);
+    const sms = this.library();
+
+    sms.recipient(to);
+    sms.send(text);
+  }
+
+  /**
+   * Renders a registered template in the locale (the application locale by
+   * default) and sends it. The returned segments tell how many SMS it takes.
+   */
+  public static sendTemplate(
+    name: string,
+    recipient: string,
+    variables: Record<string, string | number> = {},
+    locale?: string,
+  ): SmsSegments {
+    const text = SmsTemplates.render(name, variables, locale);
+
+    this.send(text, recipient);
+
+    return SmsEncoding.count(text);
+  }
+
+  /**
+   * Sends the message to every valid recipient. The invalid ones are reported
+   * instead of stopping the whole batch.
+   */
+  public static sendMany(text: string, recipients: string[]): BulkSmsResult {
+    const result: BulkSmsResult = { sent: [], rejected: [] };
+
+    for (const recipient of recipients) {
+      try {
+        this.send(text, recipient);
+        result.sent.push(this.normalize(recipient));
+      } catch (error) {
+        if (!(error instanceof InvalidPhoneNumberError)) {
+          throw error;
+        }
+
+        result.rejected.push({ recipient, reason: error.reason });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Replaces the SMS library with a recorder. Since the clients only know the
+   * facade, they do not need any change to be tested.
+   */
+  public static fake() {
+    this.recorder = new SmsRecorder();
+  }
+
+  /**
+   * Puts the real SMS library back.
+   */
+  public static restore() {
+    this.recorder = null;
+  }
+
+  /**
+   * Asserts that a message is sent to the recipient. The predicate can check
+   * the text of the message.
+   */
+  public static assertSent(recipient: string, predicate?: (text: string) => boolean) {
+    if (!this.faked().sentTo(this.normalize(recipient), predicate).length) {
+      throw new Error(`Expected a SMS to be sent to ${recipient}, but none was sent`);
+    }
+  }
+
+  public static assertNotSent(recipient: string, predicate?: (text: string) => boolean) {
+    const count = this.faked().sentTo(this.normalize(recipient), predicate).length;
+
+    if (count) {
+      throw new Error(`Expected no SMS to be sent to ${recipient}, but ${count} were sent`);
+    }
+  }
+
+  public static assertSentCount(expected: number) {
+    const count = this.faked().messages.length;
+
+    if (count !== expected) {
+      throw new Error(`Expected ${expected} SMS to be sent, but ${count} were sent`);
+    }
+  }
+
+  public static assertNothingSent() {
+    this.assertSentCount(0);
+  }
+
+  private static library(): SmsSender {
+    if (this.recorder) {
+      return this.recorder;
+    }
+
     const client_id     = config('sms.client_id');
     const client_secret = config('sms.client_secret');
     const sms_driver    = config('sms.driver');
-    
-    const sms = new SmsLibrary(client_id, client_secret, sms_driver);
-    
-    sms.recipient(recipient);
-    sms.send(text);
+
+    return new SmsLibrary(client_id, client_secret, sms_driver);
+  }
+
+  private static normalize(recipient: string): string {
+    return PhoneNumber.normalize(recipient, config('sms.default_country_code'));
+  }
+
+  private static faked(): SmsRecorder {
+    if (!this.recorder) {
+      throw new Error('SmsFacade is not faked. Call SmsFacade.fake() first');
+    }
+
+    return this.recorder;
   }
 }
 
@@ -43,6 +494,39 @@ class SmsFacade {
  * To send SMS, client code uses the interface that Facade pattern provided.
  * As we can see, the client is not aware of what is happening behind the scenes
  */ 
-SmsFacade.send('Welcome!', '+989...');
+SmsFacade.send('Welcome!', '+98 912 123 4567'); // [SMS] To +989121234567: Welcome!
 // ...
-SmsFacade.send('Your 2FA code', '+001...');
+SmsFacade.send('Your 2FA code', '+001 (415) 555-0123'); // [SMS] To +14155550123: Your 2FA code
+
+// Invalid recipients are reported when sending to several of them:
+SmsFacade.sendMany('Happy Nowruz!', ['09121234567', '+98 912', '+0014155550123']);
+// {
+//   sent: ['+989121234567', '+14155550123'],
+//   rejected: [{ recipient: '+98 912', reason: 'it is not a valid number of IR' }]
+// }
+
+// Templates are registered once, and rendered in the requested locale:
+SmsTemplates.register('2fa', {
+  en: 'Your verification code is {code}',
+  fa: 'کد تایید شما: {code}',
+});
+
+SmsFacade.sendTemplate('2fa', '09121234567', { code: 4821 });
+// [SMS] To +989121234567: Your verification code is 4821
+// returns { encoding: 'GSM-7', length: 30, segments: 1 }
+
+SmsFacade.sendTemplate('2fa', '09121234567', { code: 4821 }, 'fa-IR');
+// [SMS] To +989121234567: کد تایید شما: 4821
+// returns { encoding: 'UCS-2', length: 18, segments: 1 }
+
+/**
+ * In tests, the facade can be faked to check what would have been sent:
+ */
+SmsFacade.fake();
+SmsFacade.send('Your 2FA code is 1234', '+14155550123');
+
+SmsFacade.assertSent('+1 415 555 0123', text => text.includes('1234'));
+SmsFacade.assertNotSent('+989121234567');
+SmsFacade.assertSentCount(1);
+
+SmsFacade.restore();
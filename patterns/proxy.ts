@@ -16,6 +16,16 @@
  * https://ditty.ir/posts/proxy-design-pattern/Jq6W5
  */
 
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { performance } from 'perf_hooks';
+import { Readable } from 'stream';
+import { fileURLToPath, pathToFileURL } from 'url';
+
 /**
  * Subject Interface
  * This interface declares the operations that are common to both real subject (the
@@ -23,7 +33,7 @@
  * this interface. So we can pass both real object and the proxied object.
  */
 interface DownloaderInterface {
-  download(path);
+  download(path: string): Promise<Buffer>;
 }
 
 /**
@@ -34,8 +44,298 @@ interface DownloaderInterface {
  * 
  */
 class FileDownloader implements DownloaderInterface {
-  public download(path) {
+  public async download(path: string): Promise<Buffer> {
     console.log(`Downloading ${path}...`);
+
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of await this.open(new URL(path))) {
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Opens a stream of the file, so it is read chunk by chunk instead of at
+   * once. `file://` paths are read from the disk.
+   */
+  private open(url: URL): Promise<Readable> {
+    switch (url.protocol) {
+      case 'file:':
+        return Promise.resolve(createReadStream(fileURLToPath(url)));
+
+      case 'http:':
+      case 'https:':
+        return new Promise((resolve, reject) => {
+          const client = url.protocol === 'http:' ? http : https;
+
+          client.get(url, response => {
+            if (response.statusCode !== 200) {
+              response.resume();
+              reject(new Error(`Downloading ${url} failed with status ${response.statusCode}`));
+
+              return;
+            }
+
+            resolve(response);
+          }).on('error', reject);
+        });
+
+      default:
+        return Promise.reject(new Error(`Downloading from ${url.protocol} paths is not supported`));
+    }
+  }
+}
+
+interface CacheOptions {
+  /**
+   * How long a file stays in the cache, in milliseconds. Forever by default.
+   */
+  ttl?: number;
+  /**
+   * The most files and the most bytes the cache may hold. When a new file does
+   * not fit, the least recently used files are evicted.
+   */
+  maxEntries?: number;
+  maxBytes?: number;
+  /**
+   * The current time in milliseconds. Tests can pass a fake one.
+   */
+  now?: () => number;
+}
+
+/**
+ * What the proxy knows about a cached file without reading its content.
+ */
+interface CacheEntry {
+  path: string;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * `failedWrites` counts the downloads that could not be cached. They were
+ * still returned to the callers.
+ */
+interface CacheStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  evictions: number;
+  failedWrites: number;
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Cache Store Interface
+ * The proxy decides what is cached and for how long, and the store keeps the
+ * cached files. So the same proxy can cache in memory, on the disk, or anywhere
+ * else a store is written for.
+ */
+interface CacheStore {
+  /**
+   * Returns the entries that were stored before, e.g. by a previous run of
+   * the application. Entries that turn out to be corrupted are removed.
+   */
+  load(): Promise<CacheEntry[]>;
+  /**
+   * Returns the content of the file, or null if it is missing or corrupted.
+   */
+  read(path: string): Promise<Buffer | null>;
+  write(entry: CacheEntry, content: Buffer): Promise<void>;
+  delete(path: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps the cached files in memory. They are lost when the process exits.
+ */
+class MemoryCacheStore implements CacheStore {
+  private files = new Map<string, { entry: CacheEntry, content: Buffer }>();
+
+  public async load(): Promise<CacheEntry[]> {
+    return [...this.files.values()].map(({ entry }) => entry);
+  }
+
+  public async read(path: string): Promise<Buffer | null> {
+    return this.files.get(path)?.content ?? null;
+  }
+
+  public async write(entry: CacheEntry, content: Buffer): Promise<void> {
+    this.files.set(entry.path, { entry, content });
+  }
+
+  public async delete(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  public async clear(): Promise<void> {
+    this.files.clear();
+  }
+}
+
+/**
+ * Keeps the cached files on the disk, so they survive restarts.
+ * - Files are stored by the SHA-256 hash of their content. The same content is
+ *   stored once, and a changed file can always be detected by its hash.
+ * - An index maps the paths to the hashes, sizes and expiry times.
+ * - Every file is written to a temporary file first and then renamed, so a
+ *   crash never leaves a half-written file behind.
+ */
+class FileSystemCacheStore implements CacheStore {
+  private index = new Map<string, CacheEntry & { hash: string }>();
+
+  /**
+   * Writes of the index are queued, so a slower write can never overwrite the
+   * result of a later one.
+   */
+  private indexWrites: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  public async load(): Promise<CacheEntry[]> {
+    await fs.mkdir(join(this.directory, 'objects'), { recursive: true });
+
+    this.index.clear();
+
+    for (const entry of await this.readIndex()) {
+      const size = await this.sizeOf(entry.hash);
+
+      if (size === entry.size) {
+        this.index.set(entry.path, entry);
+      }
+    }
+
+    await this.pruneObjects();
+    await this.writeIndex();
+
+    return [...this.index.values()].map(({ path, size, expiresAt }) => ({ path, size, expiresAt }));
+  }
+
+  public async read(path: string): Promise<Buffer | null> {
+    const entry = this.index.get(path);
+
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(this.objectPath(entry.hash));
+
+      if (this.hash(content) === entry.hash) {
+        return content;
+      }
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // The file is missing or its content has changed
+    await this.delete(path);
+
+    return null;
+  }
+
+  public async write(entry: CacheEntry, content: Buffer): Promise<void> {
+    const hash = this.hash(content);
+
+    // The old entry goes first. Deleting it after the write would remove the
+    // file just written when the content has not changed.
+    await this.delete(entry.path);
+    await this.writeAtomically(this.objectPath(hash), content);
+
+    this.index.set(entry.path, { ...entry, hash });
+    await this.writeIndex();
+  }
+
+  public async delete(path: string): Promise<void> {
+    const entry = this.index.get(path);
+
+    if (!entry) {
+      return;
+    }
+
+    this.index.delete(path);
+    await this.writeIndex();
+
+    // Other paths may have the same content
+    const isShared = [...this.index.values()].some(other => other.hash === entry.hash);
+
+    if (!isShared) {
+      await fs.rm(this.objectPath(entry.hash), { force: true });
+    }
+  }
+
+  public async clear(): Promise<void> {
+    this.index.clear();
+    await this.writeIndex();
+    await this.pruneObjects();
+  }
+
+  /**
+   * A missing or unreadable index means there is nothing to reuse.
+   */
+  private async readIndex(): Promise<Array<CacheEntry & { hash: string }>> {
+    try {
+      const entries = JSON.parse(await fs.readFile(this.indexPath(), 'utf8'));
+
+      // JSON has no Infinity, so entries that never expire are saved with null
+      return entries.map(entry => ({ ...entry, expiresAt: entry.expiresAt ?? Infinity }));
+    } catch {
+      return [];
+    }
+  }
+
+  private writeIndex(): Promise<void> {
+    const content = JSON.stringify([...this.index.values()]);
+
+    this.indexWrites = this.indexWrites.then(() => this.writeAtomically(this.indexPath(), content));
+
+    return this.indexWrites;
+  }
+
+  /**
+   * Removes the files that no entry refers to, like those of deleted entries
+   * or the temporary files of an interrupted write.
+   */
+  private async pruneObjects(): Promise<void> {
+    const hashes = new Set([...this.index.values()].map(entry => entry.hash));
+
+    for (const name of await fs.readdir(join(this.directory, 'objects'))) {
+      if (!hashes.has(name)) {
+        await fs.rm(join(this.directory, 'objects', name), { force: true });
+      }
+    }
+  }
+
+  private async writeAtomically(path: string, content: Buffer | string): Promise<void> {
+    const temporary = `${path}.${process.pid}.${randomUUID()}.tmp`;
+
+    await fs.writeFile(temporary, content);
+    await fs.rename(temporary, path);
+  }
+
+  private async sizeOf(hash: string): Promise<number | null> {
+    try {
+      return (await fs.stat(this.objectPath(hash))).size;
+    } catch {
+      return null;
+    }
+  }
+
+  private hash(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  private objectPath(hash: string): string {
+    return join(this.directory, 'objects', hash);
+  }
+
+  private indexPath(): string {
+    return join(this.directory, 'index.json');
   }
 }
 
@@ -47,47 +347,620 @@ class FileDownloader implements DownloaderInterface {
  * or after forwarding the requests to the Real Subject.
  * In this example, download method first checks whether the desired file is
  * downloaded before. If not, the file will be downloaded via `download` method
- * in the Real Subject and will be cached for subsequent requests.
+ * in the Real Subject and will be cached for subsequent requests. Requests for
+ * a file that is being downloaded wait for that download instead of starting
+ * another one.
+ * The Real Subject and the store of the cached files are passed to the proxy,
+ * so any of them can be replaced.
  */
 class FileDownloaderProxy implements DownloaderInterface {
-  private downloader: FileDownloader;
-  private cachedFiles = {};
+  /**
+   * The entries of the cached files. A Map remembers the order in which its
+   * keys were set. Moving every used file to the end keeps the least recently
+   * used file at the beginning.
+   */
+  private entries = new Map<string, CacheEntry>();
+  private pendingDownloads = new Map<string, Promise<Buffer>>();
+
+  /**
+   * The files being written to the store. Removing one of them waits for its
+   * write, or the write could finish after the removal and keep the file.
+   */
+  private pendingWrites = new Map<string, Promise<void>>();
+  private options: Required<CacheOptions>;
+  private loading: Promise<void> = null;
+  private bytes = 0;
+  private stats = { hits: 0, misses: 0, coalesced: 0, evictions: 0, failedWrites: 0 };
+
+  constructor(
+    private downloader: DownloaderInterface,
+    private store: CacheStore = new MemoryCacheStore(),
+    options: CacheOptions = {},
+  ) {
+    this.options = {
+      ttl: Infinity,
+      maxEntries: Infinity,
+      maxBytes: Infinity,
+      now: () => Date.now(),
+      ...options,
+    };
+  }
+
+  public async download(path: string): Promise<Buffer> {
+    await this.load();
+
+    const cached = this.entries.get(path);
+
+    if (cached && cached.expiresAt > this.options.now()) {
+      const content = await this.store.read(path);
+
+      if (content) {
+        console.log(`Read ${path} from cache`);
+        this.stats.hits++;
+
+        // Marking the file as the most recently used one
+        this.entries.delete(path);
+        this.entries.set(path, cached);
+
+        // Returning cached file
+        return content;
+      }
+    }
+
+    const pending = this.pendingDownloads.get(path);
+
+    if (pending) {
+      console.log(`Wait for the ongoing download of ${path}`);
+      this.stats.coalesced++;
+
+      return pending;
+    }
+
+    this.stats.misses++;
+
+    const download = this.downloader.download(path);
+    this.pendingDownloads.set(path, download);
+
+    try {
+      const result = await download;
+
+      // The file may have been invalidated while it was being downloaded. Then
+      // the result is out of date and should not be cached.
+      if (this.pendingDownloads.get(path) === download) {
+        await this.cache(path, result);
+      }
+
+      return result;
+    } finally {
+      if (this.pendingDownloads.get(path) === download) {
+        this.pendingDownloads.delete(path);
+      }
+    }
+  }
+
+  /**
+   * Removes the file from the cache. If it is being downloaded, the result of
+   * that download will not be cached either.
+   */
+  public async invalidate(path: string): Promise<void> {
+    await this.load();
+
+    this.pendingDownloads.delete(path);
+    await this.remove(path);
+  }
+
+  public async clear(): Promise<void> {
+    await this.load();
+    await Promise.all(this.pendingWrites.values());
+
+    this.entries.clear();
+    this.pendingDownloads.clear();
+    this.bytes = 0;
+    await this.store.clear();
+  }
+
+  public getStats(): CacheStats {
+    return { ...this.stats, entries: this.entries.size, bytes: this.bytes };
+  }
+
+  /**
+   * Picks up the files the store already has, once. The expired ones are
+   * removed and the rest are reused within the limits of this proxy. A store
+   * that fails to load is only reported, and the proxy goes on with the files
+   * it could pick up, as downloading still works without them.
+   */
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      try {
+        for (const entry of await this.store.load()) {
+          if (entry.expiresAt > this.options.now()) {
+            this.entries.set(entry.path, entry);
+            this.bytes += entry.size;
+          } else {
+            await this.store.delete(entry.path);
+          }
+        }
+
+        await this.evict(0, 0);
+      } catch (error) {
+        console.error(`Could not load the cache: ${error.message}`);
+      }
+    })();
+
+    return this.loading;
+  }
+
+  /**
+   * Replaces the cached file with the downloaded one. The download has
+   * succeeded by then, so a store that fails to write (e.g. a full disk) is
+   * only reported, and the caller still gets the file, as do the callers
+   * waiting for the same download.
+   */
+  private async cache(path: string, content: Buffer) {
+    const write = (async () => {
+      try {
+        await this.remove(path);
+        await this.save(path, content);
+      } catch (error) {
+        this.stats.failedWrites++;
+        console.error(`Could not cache ${path}: ${error.message}`);
+      }
+    })();
+
+    this.pendingWrites.set(path, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(path) === write) {
+        this.pendingWrites.delete(path);
+      }
+    }
+  }
+
+  private async save(path: string, content: Buffer) {
+    const size = content.length;
+    const { ttl, maxEntries, maxBytes, now } = this.options;
+
+    // A file that can never fit is not cached at all, instead of evicting
+    // every other file for nothing
+    if (size > maxBytes || maxEntries < 1) {
+      return;
+    }
+
+    await this.evict(size);
+
+    const entry = { path, size, expiresAt: now() + ttl };
+    this.entries.set(path, entry);
+    this.bytes += size;
+
+    try {
+      await this.store.write(entry, content);
+    } catch (error) {
+      // The entry must not point to a file the store does not have
+      if (this.entries.get(path) === entry) {
+        this.entries.delete(path);
+        this.bytes -= size;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Evicts the least recently used files until `count` more files of `size`
+   * bytes in total fit. Nothing is added at startup, so the files picked up
+   * from the store only have to fit themselves.
+   */
+  private async evict(size: number, count = 1) {
+    const { maxEntries, maxBytes } = this.options;
+
+    while (this.entries.size && (this.entries.size + count > maxEntries || this.bytes + size > maxBytes)) {
+      const [oldest] = this.entries.keys();
+      await this.remove(oldest);
+      this.stats.evictions++;
+    }
+  }
+
+  private async remove(path: string) {
+    await this.pendingWrites.get(path);
+
+    const cached = this.entries.get(path);
+
+    if (cached) {
+      this.entries.delete(path);
+      this.bytes -= cached.size;
+      await this.store.delete(path);
+    }
+  }
+}
+
+/**
+ * The errors of the protection proxies. They are thrown when a download is
+ * refused before it starts, so the clients can tell them apart from the
+ * downloads that failed.
+ */
+class DownloadRejectedError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(message);
+    this.name = 'DownloadRejectedError';
+  }
+}
+
+class AccessDeniedError extends DownloadRejectedError {
+  constructor(public readonly caller: string, path: string) {
+    super(`${caller} is not allowed to download ${path}`, path);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+class RateLimitExceededError extends DownloadRejectedError {
+  constructor(public readonly host: string, path: string, public readonly retryAfter: number) {
+    super(`Too many downloads from ${host}, retry in ${retryAfter}ms`, path);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * The URL patterns each caller may and may not download. `*` matches any
+ * characters. Denied patterns win over the allowed ones, and a caller can only
+ * download what is allowed. The `*` caller is used for the callers that are
+ * not listed.
+ */
+type AccessPolicy = Record<string, { allow?: string[], deny?: string[] }>;
+
+/**
+ * Protection Proxy
+ * Another proxy with the same Subject Interface. Instead of caching, it checks
+ * whether the caller is allowed to download the file before forwarding the
+ * request. Since every proxy wraps a DownloaderInterface, the proxies can be
+ * stacked on top of each other.
+ */
+class AccessControlDownloaderProxy implements DownloaderInterface {
+  constructor(
+    private downloader: DownloaderInterface,
+    private caller: string,
+    private policy: AccessPolicy,
+  ) {}
+
+  public download(path: string): Promise<Buffer> {
+    if (!this.isAllowed(path)) {
+      return Promise.reject(new AccessDeniedError(this.caller, path));
+    }
+
+    return this.downloader.download(path);
+  }
+
+  private isAllowed(path: string): boolean {
+    const rules = this.policy[this.caller] ?? this.policy['*'] ?? {};
+    const matches = (pattern: string) => this.toRegExp(pattern).test(path);
+
+    return !(rules.deny ?? []).some(matches) && (rules.allow ?? []).some(matches);
+  }
+
+  private toRegExp(pattern: string): RegExp {
+    const escaped = pattern
+      .split('*')
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${escaped}$`);
+  }
+}
+
+interface RateLimit {
+  /**
+   * The most downloads that can be made at once from a host.
+   */
+  capacity: number;
+  /**
+   * How many downloads per second are allowed from a host in the long run.
+   */
+  refillPerSecond: number;
+  now?: () => number;
+}
+
+/**
+ * Another Protection Proxy that limits the downloads from each host with a
+ * token bucket: every download takes a token, and the tokens are refilled at
+ * a steady rate up to the capacity of the bucket.
+ */
+class RateLimitingDownloaderProxy implements DownloaderInterface {
+  private buckets = new Map<string, { tokens: number, updatedAt: number }>();
+  private limit: Required<RateLimit>;
+
+  constructor(private downloader: DownloaderInterface, limit: RateLimit) {
+    this.limit = { now: () => Date.now(), ...limit };
+  }
+
+  public async download(path: string): Promise<Buffer> {
+    const url = new URL(path);
+    const host = url.host || url.protocol;
+    const bucket = this.refill(host);
+
+    if (bucket.tokens < 1) {
+      const retryAfter = Math.ceil((1 - bucket.tokens) / this.limit.refillPerSecond * 1000);
+
+      throw new RateLimitExceededError(host, path, retryAfter);
+    }
+
+    bucket.tokens--;
+
+    return this.downloader.download(path);
+  }
 
-  constructor() {
-    this.downloader = new FileDownloader;
+  private refill(host: string) {
+    const { capacity, refillPerSecond, now } = this.limit;
+    const bucket = this.buckets.get(host) ?? { tokens: capacity, updatedAt: now() };
+    const elapsed = (now() - bucket.updatedAt) / 1000;
+
+    bucket.tokens = Math.min(capacity, bucket.tokens + elapsed * refillPerSecond);
+    bucket.updatedAt = now();
+    this.buckets.set(host, bucket);
+
+    return bucket;
   }
+}
+
+/**
+ * Generic Proxy
+ * The proxies above are written for DownloaderInterface only. With the `Proxy`
+ * object of JavaScript, a single proxy can intercept every method of any
+ * object, and the behavior added around the calls is described by handlers.
+ */
+type MethodNames<T> = { [K in keyof T]: T[K] extends (...args: any[]) => any ? K : never }[keyof T] & string;
+
+/**
+ * A single call to a method of the proxied object.
+ */
+interface Invocation<T> {
+  target: T;
+  method: MethodNames<T>;
+  args: unknown[];
+}
+
+/**
+ * The hooks of a handler. `before` and `after` watch the calls, while `around`
+ * wraps them and decides whether and how to `proceed` to the original method.
+ * When the method returns a promise, `after` runs once it is resolved. A
+ * handler can be limited to some of the methods. It is not named after the
+ * handler of the built-in `Proxy`, which works on properties, not calls.
+ */
+interface MethodInterceptor<T> {
+  methods?: MethodNames<T>[];
+  before?(invocation: Invocation<T>): void;
+  after?(invocation: Invocation<T>, result: unknown): void;
+  around?(invocation: Invocation<T>, proceed: () => unknown): unknown;
+}
+
+class CallDeniedError extends Error {
+  constructor(public readonly method: string) {
+    super(`Calling ${method} is not allowed`);
+    this.name = 'CallDeniedError';
+  }
+}
+
+/**
+ * The constructor of the `async` functions, which has no global name.
+ */
+const AsyncFunction = (async () => {}).constructor;
+
+/**
+ * Wraps the target in a proxy with the same type, so the proxy can be passed
+ * anywhere the target is expected. The first handler is the outermost one.
+ * A handler that throws on a call to an asynchronous method makes the call
+ * reject, as the method itself would. A method counts as asynchronous when it
+ * is an `async` function, or once one of its calls has returned a promise. So
+ * the very first call to a plain method returning a promise, or to an `async`
+ * method compiled down to a plain one, still throws.
+ */
+function createProxy<T extends object>(target: T, ...handlers: MethodInterceptor<T>[]): T {
+  const wrappers = new Map<PropertyKey, Function>();
+
+  return new Proxy(target, {
+    get(object, property, receiver) {
+      const value = Reflect.get(object, property, receiver);
+
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+
+      // The same wrapper is returned every time, so `proxy.method === proxy.method`
+      if (!wrappers.has(property)) {
+        const method = property as MethodNames<T>;
+        const applicable = handlers.filter(handler => !handler.methods || handler.methods.includes(method));
+        let isAsync = value instanceof AsyncFunction;
+
+        wrappers.set(property, (...args: unknown[]) => {
+          const invocation: Invocation<T> = { target, method, args };
+          const call = () => (Reflect.get(object, property) as Function).apply(object, args);
+
+          try {
+            const result = applicable.reduceRight<() => unknown>(
+              (proceed, handler) => () => invoke(handler, invocation, proceed),
+              call,
+            )();
+
+            isAsync ||= result instanceof Promise;
+
+            return result;
+          } catch (error) {
+            if (isAsync) {
+              return Promise.reject(error);
+            }
+
+            throw error;
+          }
+        });
+      }
+
+      return wrappers.get(property);
+    },
+  });
+}
+
+function invoke<T>(handler: MethodInterceptor<T>, invocation: Invocation<T>, proceed: () => unknown): unknown {
+  handler.before?.(invocation);
 
-  public download(path) {
-    if (this.cachedFiles.hasOwnProperty(path)) {
-      console.log(`Read ${path} from cache`);
+  const result = handler.around ? handler.around(invocation, proceed) : proceed();
 
-      // Returning cached file
-      return this.cachedFiles[path];
-    } else {
-      const result = this.downloader.download(path);
+  if (handler.after) {
+    if (result instanceof Promise) {
+      return result.then(resolved => {
+        handler.after(invocation, resolved);
 
-      this.cachedFiles[path] = result;
+        return resolved;
+      });
     }
+
+    handler.after(invocation, result);
   }
+
+  return result;
+}
+
+/**
+ * Built-in handlers.
+ * Remembers the result of each call by its arguments. Promises are remembered
+ * too, so concurrent calls share one, unless they are rejected.
+ */
+function memoizeHandler<T>(
+  methods?: MethodNames<T>[],
+  key: (args: unknown[]) => string = args => JSON.stringify(args),
+): MethodInterceptor<T> {
+  const results = new Map<string, unknown>();
+
+  return {
+    methods,
+    around({ method, args }, proceed) {
+      const cacheKey = `${method}:${key(args)}`;
+
+      if (!results.has(cacheKey)) {
+        const result = proceed();
+        results.set(cacheKey, result);
+
+        if (result instanceof Promise) {
+          result.catch(() => results.delete(cacheKey));
+        }
+      }
+
+      return results.get(cacheKey);
+    },
+  };
+}
+
+function loggingHandler<T>(log: (message: string) => void = console.log): MethodInterceptor<T> {
+  return {
+    before: ({ method, args }) => log(`Calling ${method}(${args.map(arg => JSON.stringify(arg)).join(', ')})`),
+    after: ({ method }) => log(`${method} returned`),
+  };
+}
+
+function timingHandler<T>(
+  report: (method: string, ms: number) => void = (method, ms) => console.log(`${method} took ${ms.toFixed(1)}ms`),
+): MethodInterceptor<T> {
+  return {
+    around({ method }, proceed) {
+      const start = performance.now();
+      const done = () => report(method, performance.now() - start);
+      const result = proceed();
+
+      if (result instanceof Promise) {
+        return result.finally(done);
+      }
+
+      done();
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Refuses the calls that `isAllowed` rejects, before they reach the target.
+ */
+function accessCheckHandler<T>(isAllowed: (invocation: Invocation<T>) => boolean): MethodInterceptor<T> {
+  return {
+    before(invocation) {
+      if (!isAllowed(invocation)) {
+        throw new CallDeniedError(invocation.method);
+      }
+    },
+  };
 }
 
 /**
  * The client works with various downloaders via Subject Interface. So both Real
  * Subject and the proxied version can be passed to it.
  */
-function client(downloader: DownloaderInterface) {
-  downloader.download('http://path-to-file.jpg');
-  downloader.download('http://path-to-file.jpg');
-  downloader.download('http://path-to-file.jpg');
-  downloader.download('http://path-to-file.jpg');
-  downloader.download('http://path-to-file.jpg');
+async function client(downloader: DownloaderInterface) {
+  const path = pathToFileURL(__filename).href;
+
+  // These requests are made at the same time, so only one download starts
+  await Promise.all([
+    downloader.download(path),
+    downloader.download(path),
+    downloader.download(path),
+  ]);
+
+  // Later requests are served from the cache
+  await downloader.download(path);
+  await downloader.download(path);
 }
 
-client(new FileDownloaderProxy());
+const proxy = new FileDownloaderProxy(
+  new FileDownloader,
+  new FileSystemCacheStore(join(tmpdir(), 'downloads-cache')),
+  { ttl: 60 * 1000, maxEntries: 100, maxBytes: 10 * 1024 * 1024 },
+);
+
+client(proxy).then(() => console.log(proxy.getStats()));
+
+// logs on the first run:
+// Downloading file:///path/to/proxy.js...
+// Wait for the ongoing download of file:///path/to/proxy.js
+// Wait for the ongoing download of file:///path/to/proxy.js
+// Read file:///path/to/proxy.js from cache
+// Read file:///path/to/proxy.js from cache
+// { hits: 2, misses: 1, coalesced: 2, evictions: 0, failedWrites: 0, entries: 1, bytes: ... }
+//
+// Within a minute, the next runs read every request from the cache on disk.
+
+/**
+ * The proxies can be stacked. Here the access is checked first, then the cache
+ * is looked up, and only the actual downloads are rate limited.
+ */
+const protectedDownloader = new AccessControlDownloaderProxy(
+  new FileDownloaderProxy(
+    new RateLimitingDownloaderProxy(new FileDownloader, { capacity: 10, refillPerSecond: 1 }),
+  ),
+  'reports',
+  { reports: { allow: ['https://cdn.example.com/reports/*'], deny: ['*.exe'] } },
+);
+
+protectedDownloader.download('https://cdn.example.com/tools/setup.exe').catch(error => {
+  if (error instanceof DownloadRejectedError) {
+    console.log(`Rejected: ${error.message}`);
+  } else {
+    console.log(`Download failed: ${error.message}`);
+  }
+});
+// Rejected: reports is not allowed to download https://cdn.example.com/tools/setup.exe
+
+/**
+ * The same kind of caching, with the generic proxy and the built-in handlers.
+ * Any other object can be proxied in the same way.
+ */
+const genericProxy = createProxy<DownloaderInterface>(
+  new FileDownloader,
+  loggingHandler(),
+  memoizeHandler(),
+);
 
-// logs:
-// Downloading http://path-to-file.jpg...
-// Read http://path-to-file.jpg from cache
-// Read http://path-to-file.jpg from cache
-// Read http://path-to-file.jpg from cache
-// Read http://path-to-file.jpg from cache
+genericProxy.download(pathToFileURL(__filename).href)
+  .then(() => genericProxy.download(pathToFileURL(__filename).href));
+// Calling download("file:///path/to/proxy.js")
+// Downloading file:///path/to/proxy.js...
+// download returned
+// Calling download("file:///path/to/proxy.js")
+// download returned
@@ -19,32 +19,148 @@
  * https://ditty.ir/posts/singleton-design-pattern/XNrxX
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { existsSync, readdirSync, readFileSync, watch as watchDirectory } from 'fs';
+import { extname, basename, join } from 'path';
+
+/**
+ * The types a configuration key can have, and their TypeScript types.
+ */
+interface ConfigTypes {
+  string: string;
+  number: number;
+  boolean: boolean;
+}
+
+/**
+ * The rule of a single configuration key. A key without a default that is
+ * not required may be left unset.
+ */
+interface ConfigRule {
+  type: keyof ConfigTypes;
+  default?: string | number | boolean;
+  required?: boolean;
+  allowed?: ReadonlyArray<string | number | boolean>;
+}
+
+type ConfigSchema = Record<string, ConfigRule>;
+
+/**
+ * Where a config instance reads its files and environment variables from.
+ * By default they are `CONFIG_DIR` (or `./config`) and `process.env`.
+ */
+interface ConfigOptions<Schema extends ConfigSchema> {
+  schema?: Schema;
+  directory?: string;
+  environment?: Record<string, string>;
+}
+
+/**
+ * The TypeScript type of a key: the union of its allowed values, or the type
+ * it is declared with. Only keys that are required or have a default can
+ * never be `undefined`.
+ */
+type ConfigValue<Rule extends ConfigRule> =
+  | (Rule extends { allowed: ReadonlyArray<infer Allowed> } ? Allowed : ConfigTypes[Rule['type']])
+  | (Rule extends { default: unknown } | { required: true } ? never : undefined);
+
+type ConfigValues<Schema extends ConfigSchema> = { [Key in keyof Schema]: ConfigValue<Schema[Key]> };
+
+/**
+ * Thrown when the configuration does not match its schema. It holds all the
+ * problems found, not only the first one.
+ */
+class ConfigValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid configuration:\n- ${errors.join('\n- ')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * The schema of the application configuration. Nested keys are declared with
+ * dots. It is declared `as const` so that `get` knows the exact allowed values.
+ */
+const schema = {
+  app_locale: { type: 'string', default: 'en', allowed: ['en', 'fa'] },
+  db_host: { type: 'string', default: '127.0.0.1' },
+  db_driver: { type: 'string', default: 'mysql', allowed: ['mysql', 'postgres', 'sqlite', 'mongodb'] },
+  db_port: { type: 'number', default: 3306 },
+  db_ssl: { type: 'boolean', default: false },
+  db_password: { type: 'string' },
+  'sms.driver': { type: 'string', default: 'log', allowed: ['log', 'memory'] },
+} as const;
+
+type AppSchema = typeof schema;
+
+/**
+ * The event a listener of `onChange` receives. `previous` and `current` have
+ * the type of the key.
+ */
+interface ConfigChange<Schema extends ConfigSchema, Key extends keyof Schema> {
+  key: Key;
+  previous: ConfigValue<Schema[Key]>;
+  current: ConfigValue<Schema[Key]>;
+}
+
+type ConfigListener<Schema extends ConfigSchema, Key extends keyof Schema> =
+  (change: ConfigChange<Schema, Key>) => void;
+
 /**
  * Config, the Singleton class.
  * It should define a `getInstance` method to allow clients to access the instance.
+ *
+ * The configuration is loaded in layers. Each layer overrides the values of
+ * the previous ones:
+ * 1. The defaults of the schema.
+ * 2. The `*.json` files of the config directory, in alphabetical order.
+ * 3. The `*.yaml` and `*.yml` files of the config directory, in alphabetical
+ *    order. The name of a file is the first part of its keys, so `driver` in
+ *    `sms.json` sets `sms.driver`. For a key the schema declares flat, the
+ *    parts are joined with `_` instead, so `host` in `db.json` sets `db_host`.
+ * 4. The `.env` file of the config directory.
+ * 5. The environment variables that start with `CONFIG__`.
+ * In `.env` and in environment variables, `__` separates the parts of a key,
+ * so `CONFIG__SMS__DRIVER` sets `sms.driver`, and `APP_LOCALE` in `.env` sets
+ * `app_locale`. A `.env` file usually holds the variables of other tools too,
+ * like `NODE_ENV`, so only its variables that start with a section of the
+ * schema, like `APP_` or `DB_`, are read.
+ * The config directory is `./config`, or the one named by `CONFIG_DIR`.
+ *
+ * Once loaded, every key of the schema is checked and converted to its type,
+ * so `db_port: '3306'` from the environment becomes the number 3306. Keys
+ * that are not in the schema, like a mistyped `db_prot`, are refused.
  */
-class Config {
+class Config<Schema extends ConfigSchema = AppSchema> {
   /**
    *  The instance object that `getInstance` method will return it.
    */
   private static instance: Config = null;
 
+  private static readonly ENV_PREFIX = 'CONFIG__';
+
   /**
    * The application configuration variables that will be get and set only once.
    */
-  private items: Object;
+  private items: Record<string, unknown>;
+
+  private listeners = new Map<string, Set<ConfigListener<Schema, any>>>();
+
+  /**
+   * The values of the running `withOverrides` calls. Every scope sees its own
+   * copy, including the asynchronous work it starts.
+   */
+  private overrides = new AsyncLocalStorage<Map<string, unknown>>();
 
   /**
    * The singleton's constructor sould always be private to disallow direct
    * object construction with the `new` operator, outside the class.
    */
-  private constructor() {
-    this.items = {};
-    const files = this.loadAllConfigFiles();
-
-    for (const file in files) {
-      this.items[file] = files[file];
-    }
+  private constructor(
+    private readonly schema: Schema,
+    private readonly options: ConfigOptions<Schema> = {},
+  ) {
+    this.items = this.load();
   }
 
   /**
@@ -53,32 +169,751 @@ class Config {
    */
   public static getInstance() {
     if (this.instance === null) {
-      this.instance = new Config();
+      this.instance = new Config(schema);
     }
 
     return this.instance;
   }
 
   /**
-   * Some business logics that we intend to execute them once.
+   * Forgets the instance, so the next `getInstance` call loads the
+   * configuration again. Only meant for tests; the rest of the program should
+   * never need it.
+   */
+  public static resetInstance() {
+    this.instance = null;
+  }
+
+  /**
+   * Creates an instance that is not shared with the rest of the program, e.g.
+   * to be injected into the classes under test. It can have its own schema,
+   * directory and environment variables.
+   */
+  public static create<Schema extends ConfigSchema = AppSchema>(options: ConfigOptions<Schema> = {}): Config<Schema> {
+    return new Config((options.schema ?? schema) as Schema, options);
+  }
+
+  /**
+   * Runs `fn` with temporary values on the shared instance. See the instance
+   * method below.
+   */
+  public static withOverrides<T>(overrides: Partial<ConfigValues<AppSchema>>, fn: () => T): T {
+    return this.getInstance().withOverrides(overrides, fn);
+  }
+
+  /**
+   * Runs `fn` while `get` returns the given values, and returns its result.
+   * The values also apply to the asynchronous work started by `fn`, but not to
+   * the code running beside it. Calls to `set` inside `fn` only change the
+   * temporary values, so nothing is left behind when `fn` is done. Listeners
+   * are not told about the temporary values.
+   */
+  public withOverrides<T>(overrides: Partial<ConfigValues<Schema>>, fn: () => T): T {
+    const errors: string[] = [];
+    const values = new Map(this.overrides.getStore());
+
+    for (const key of Object.keys(overrides)) {
+      values.set(key, this.check(key, overrides[key], errors));
+    }
+
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+
+    return this.overrides.run(values, fn);
+  }
+
+  /**
+   * Reads all the layers again and tells the listeners about the keys whose
+   * values have changed. Values given to `set` are replaced by the loaded ones.
+   * An invalid configuration is refused and the current values are kept.
+   */
+  public reload() {
+    const previous = this.items;
+    this.items = this.load();
+
+    for (const key of Object.keys(this.schema)) {
+      this.notify(key, this.read(previous, key), this.read(this.items, key));
+    }
+  }
+
+  /**
+   * Reloads the configuration whenever a file of the config directory changes.
+   * Editors usually write a file in several steps, so the reload waits until
+   * the changes settle. Returns a function that stops watching.
    */
-  private loadAllConfigFiles(): Object {
-    /**
-     * Suppose these variables are fetched from the server and file-system.
-     */
-    return {
-      app_locale: 'en',
-      db_host: '127.0.0.1',
-      db_port: '3306',
+  public watch(onError: (error: Error) => void = error => console.error(error.message)): () => void {
+    const directory = this.directory();
+
+    if (!existsSync(directory)) {
+      return () => {};
+    }
+
+    let timer: NodeJS.Timeout;
+    const watcher = watchDirectory(directory, (event, file) => {
+      if (file && !['.json', '.yaml', '.yml'].includes(extname(file)) && file !== '.env') {
+        return;
+      }
+
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        try {
+          this.reload();
+        } catch (error) {
+          onError(error);
+        }
+      }, 100);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
     };
   }
 
-  public get(key) {
-    return this.items[key];
+  /**
+   * Calls the listener every time the value of the key changes, by `set` or by
+   * a reload. Returns a function that removes the listener. A listener that
+   * throws is reported, and neither stops the other listeners nor fails the
+   * change, which has already been made.
+   */
+  public onChange<Key extends keyof Schema & string>(key: Key, listener: ConfigListener<Schema, Key>): () => void {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+
+    this.listeners.get(key).add(listener);
+
+    return () => this.listeners.get(key).delete(listener);
+  }
+
+  private notify(key: string, previous: unknown, current: unknown) {
+    if (previous === current) {
+      return;
+    }
+
+    for (const listener of this.listeners.get(key) ?? []) {
+      try {
+        listener({ key, previous, current } as ConfigChange<Schema, string>);
+      } catch (error) {
+        console.error(`A listener of ${key} failed: ${error.message}`);
+      }
+    }
   }
 
-  public set(key, value) {
-    this.items[key] = value;
+  private directory() {
+    return this.options.directory ?? process.env.CONFIG_DIR ?? join(process.cwd(), 'config');
+  }
+
+  /**
+   * Merges the layers and checks them against the schema.
+   */
+  private load(): Record<string, unknown> {
+    const items = {};
+
+    for (const layer of this.loadAllConfigFiles()) {
+      this.merge(items, this.normalize(layer));
+    }
+
+    this.validate(items);
+
+    return items;
+  }
+
+  /**
+   * Renames the keys of a layer to the keys of the schema. Files nest every
+   * key under their section, like `db.host`, while the schema may declare it
+   * flat, like `db_host`.
+   */
+  private normalize(layer: Record<string, unknown>): Record<string, unknown> {
+    const values = {};
+
+    for (const key of this.keys(layer)) {
+      const flat = key.split('.').join('_');
+
+      this.assign(values, key in this.schema || !(flat in this.schema) ? key : flat, this.read(layer, key));
+    }
+
+    return values;
+  }
+
+  /**
+   * Some business logics that we intend to execute them once.
+   * Returns the layers of the configuration, from the lowest precedence to the
+   * highest.
+   */
+  private loadAllConfigFiles(): Record<string, unknown>[] {
+    const directory = this.directory();
+    const files = existsSync(directory) ? readdirSync(directory).sort() : [];
+    const read = (file: string) => readFileSync(join(directory, file), 'utf8');
+    const namespaced = (file: string, values: unknown) => ({ [basename(file, extname(file))]: values });
+
+    const defaults = {};
+
+    for (const key of Object.keys(this.schema)) {
+      if (this.schema[key].default !== undefined) {
+        this.assign(defaults, key, this.schema[key].default);
+      }
+    }
+
+    return [
+      defaults,
+      ...files
+        .filter(file => extname(file) === '.json')
+        .map(file => namespaced(file, JSON.parse(read(file)))),
+      ...files
+        .filter(file => ['.yaml', '.yml'].includes(extname(file)))
+        .map(file => namespaced(file, this.parseYaml(read(file)))),
+      files.includes('.env') ? this.fromEnvFile(read('.env')) : {},
+      this.fromVariables(this.options.environment ?? process.env, Config.ENV_PREFIX),
+    ];
+  }
+
+  /**
+   * Reads a value by its key. Nested values are read with dotted keys, e.g.
+   * `get('sms.driver')`. The type of the value comes from the schema, and the
+   * default is returned when a key without a default of its own is not set.
+   */
+  public get<Key extends keyof Schema & string>(key: Key): ConfigValue<Schema[Key]>;
+  public get<Key extends keyof Schema & string, Default>(
+    key: Key,
+    defaultValue: Default,
+  ): Exclude<ConfigValue<Schema[Key]>, undefined> | Default;
+  public get(key: string, defaultValue?: unknown): unknown {
+    const overrides = this.overrides.getStore();
+
+    if (overrides?.has(key)) {
+      return overrides.get(key) ?? defaultValue;
+    }
+
+    return this.read(this.items, key) ?? defaultValue;
+  }
+
+  /**
+   * Sets a value of the schema. Unknown keys and invalid values are refused,
+   * the same way they are refused while loading.
+   */
+  public set<Key extends keyof Schema & string>(key: Key, value: ConfigValue<Schema[Key]>) {
+    const errors: string[] = [];
+    const converted = this.check(key, value, errors);
+
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+
+    if (this.overrides.getStore()) {
+      this.overrides.getStore().set(key, converted);
+      return;
+    }
+
+    const previous = this.read(this.items, key);
+    this.assign(this.items, key, converted);
+    this.notify(key, previous, converted);
+  }
+
+  private read(items: Record<string, unknown>, key: string): unknown {
+    let value: any = items;
+
+    for (const part of key.split('.')) {
+      if (value === null || typeof value !== 'object' || !(part in value)) {
+        return undefined;
+      }
+
+      value = value[part];
+    }
+
+    return value;
+  }
+
+  /**
+   * Checks the loaded values against the schema and replaces them with their
+   * converted values. All the problems are collected before throwing, so a
+   * broken configuration can be fixed at once.
+   */
+  private validate(items: Record<string, unknown>) {
+    const errors: string[] = [];
+
+    for (const key of this.keys(items)) {
+      if (!(key in this.schema)) {
+        errors.push(`${key} is not a known key`);
+      }
+    }
+
+    for (const key of Object.keys(this.schema)) {
+      const value = this.check(key, this.read(items, key), errors);
+
+      if (value !== undefined) {
+        this.assign(items, key, value);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+  }
+
+  /**
+   * Returns the value converted to the type of its key, and adds the problems
+   * found to `errors`.
+   */
+  private check(key: string, value: unknown, errors: string[]): unknown {
+    const rule = this.schema[key];
+
+    if (rule === undefined) {
+      errors.push(`${key} is not a known key`);
+      return undefined;
+    }
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        errors.push(`${key} is required`);
+      }
+
+      return undefined;
+    }
+
+    const converted = this.convert(value, rule.type);
+
+    if (converted === undefined) {
+      errors.push(`${key} must be a ${rule.type}, got ${typeof value === 'string' ? `'${value}'` : value}`);
+    } else if (rule.allowed && !rule.allowed.includes(converted)) {
+      errors.push(`${key} must be one of ${rule.allowed.join(', ')}, got ${converted}`);
+    }
+
+    return converted;
+  }
+
+  /**
+   * Converts the strings of `.env` files and environment variables to numbers
+   * and booleans. Returns `undefined` when the value can not be converted.
+   */
+  private convert(value: unknown, type: keyof ConfigTypes): string | number | boolean {
+    if (typeof value === type) {
+      return typeof value === 'number' && !isFinite(value) ? undefined : value as string | number | boolean;
+    }
+
+    if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+      return String(value);
+    }
+
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    if (type === 'number' && value.trim() !== '' && isFinite(Number(value))) {
+      return Number(value);
+    }
+
+    if (type === 'boolean' && ['true', 'false', '1', '0'].includes(value.toLowerCase())) {
+      return ['true', '1'].includes(value.toLowerCase());
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the dotted keys of all the values, e.g. `sms.driver`.
+   */
+  private keys(values: Record<string, unknown>, prefix = ''): string[] {
+    return Object.keys(values).flatMap(key => {
+      const value = values[key];
+
+      return value !== null && typeof value === 'object' && !Array.isArray(value)
+        ? this.keys(value as Record<string, unknown>, `${prefix}${key}.`)
+        : [`${prefix}${key}`];
+    });
+  }
+
+  private assign(target: Record<string, any>, key: string, value: unknown) {
+    const parts = key.split('.');
+    const last = parts.pop();
+
+    for (const part of parts) {
+      if (target[part] === null || typeof target[part] !== 'object') {
+        target[part] = {};
+      }
+
+      target = target[part];
+    }
+
+    target[last] = value;
+  }
+
+  private merge(target: Record<string, any>, source: Record<string, any>) {
+    for (const key of Object.keys(source)) {
+      const isObject = (value: unknown) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+      if (isObject(source[key]) && isObject(target[key])) {
+        this.merge(target[key], source[key]);
+      } else {
+        target[key] = source[key];
+      }
+    }
+  }
+
+  /**
+   * Turns variables like `SMS__DRIVER=...` into nested values like `sms.driver`.
+   * With a prefix, only the variables that start with it are taken.
+   */
+  private fromVariables(variables: Record<string, string>, prefix = ''): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+
+    for (const name of Object.keys(variables)) {
+      if (name.startsWith(prefix) && variables[name] !== undefined) {
+        this.assign(values, name.slice(prefix.length).toLowerCase().split('__').join('.'), variables[name]);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Takes the variables of a `.env` file that belong to a section of the
+   * schema, and leaves the others to the tools they are meant for.
+   */
+  private fromEnvFile(content: string): Record<string, unknown> {
+    const section = (key: string) => key.toLowerCase().split(/[._]/)[0];
+    const sections = new Set(Object.keys(this.schema).map(section));
+    const variables = Object.entries(this.parseEnv(content)).filter(([name]) => sections.has(section(name)));
+
+    return this.fromVariables(Object.fromEntries(variables));
+  }
+
+  /**
+   * Reads `KEY=value` lines. Blank lines and lines starting with `#` are
+   * skipped, and values may be wrapped in quotes. A ` #` after a value starts
+   * a comment, unless it is inside the quotes.
+   */
+  private parseEnv(content: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([\w.]+)\s*=\s*(.*?)\s*$/);
+
+      if (match && !line.trim().startsWith('#')) {
+        const quoted = match[2].match(/^(['"])(.*?)\1(?:\s+#.*)?$/);
+
+        variables[match[1]] = quoted ? quoted[2] : match[2].replace(/\s+#.*$/, '');
+      }
+    }
+
+    return variables;
+  }
+
+  /**
+   * Reads a small subset of YAML: nested maps by indentation, lists of
+   * scalars, comments, and scalars (quoted or plain strings, numbers,
+   * booleans and null).
+   */
+  private parseYaml(content: string): Record<string, unknown> {
+    const root: Record<string, unknown> = {};
+    const stack: Array<{ indent: number, value: any }> = [{ indent: -1, value: root }];
+    let lastKey: { parent: Record<string, unknown>, key: string } = null;
+
+    for (const raw of content.split(/\r?\n/)) {
+      const line = this.stripComment(raw);
+
+      if (!line.trim()) {
+        continue;
+      }
+
+      const indent = line.length - line.trimStart().length;
+
+      while (indent <= stack[stack.length - 1].indent) {
+        stack.pop();
+      }
+
+      const parent = stack[stack.length - 1].value;
+      const item = line.trim().match(/^-\s+(.*)$/);
+
+      if (item) {
+        const list = lastKey?.parent[lastKey.key];
+        const isEmpty = list !== null && typeof list === 'object' && !Object.keys(list).length;
+
+        // Items can only follow a key without a value of its own
+        if (!Array.isArray(list) && !isEmpty) {
+          throw new Error(`Invalid YAML line: ${raw}`);
+        }
+
+        // The first item turns the empty value of the last key into a list
+        if (!Array.isArray(list)) {
+          lastKey.parent[lastKey.key] = [];
+        }
+
+        (lastKey.parent[lastKey.key] as unknown[]).push(this.parseScalar(item[1]));
+        continue;
+      }
+
+      const pair = line.trim().match(/^([^:]+):\s*(.*)$/);
+
+      if (!pair) {
+        throw new Error(`Invalid YAML line: ${raw}`);
+      }
+
+      const key = pair[1].trim();
+
+      if (pair[2] === '') {
+        parent[key] = {};
+        stack.push({ indent, value: parent[key] });
+      } else {
+        parent[key] = this.parseScalar(pair[2]);
+      }
+
+      lastKey = { parent, key };
+    }
+
+    return root;
+  }
+
+  /**
+   * Removes a comment from a line. A `#` starts a comment at the beginning of
+   * the line or after a space, but not inside a quoted value.
+   */
+  private stripComment(line: string): string {
+    let quote: string = null;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (quote) {
+        quote = char === quote ? null : quote;
+      } else if ((char === '"' || char === "'") && /(^|[:-])\s*$/.test(line.slice(0, i))) {
+        // Quotes only count at the start of a value, so `it's` is plain text
+        quote = char;
+      } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+        return line.slice(0, i).trimEnd();
+      }
+    }
+
+    return line;
+  }
+
+  private parseScalar(value: string): unknown {
+    if (/^(['"]).*\1$/.test(value)) {
+      return value.slice(1, -1);
+    }
+
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+
+    if (value === 'null' || value === '~') {
+      return null;
+    }
+
+    return value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+  }
+}
+
+/**
+ * A reusable alternative to hand-written singletons: a container that creates
+ * services on demand. How many instances it makes depends on the lifetime a
+ * service is registered with:
+ * - `singleton`: one instance for the container and all of its scopes.
+ * - `scoped`: one instance per scope, e.g. per request or per test.
+ * - `transient`: a new instance every time it is resolved.
+ * Instead of static state, the single instances live in the container, so a
+ * test can simply use a new container.
+ */
+type Lifetime = 'singleton' | 'scoped' | 'transient';
+
+type Resolver<Services> = <Name extends keyof Services & string>(name: Name) => Promise<Services[Name]>;
+
+interface Registration {
+  lifetime: Lifetime;
+  factory: (resolve: Resolver<any>) => unknown;
+}
+
+/**
+ * The names of the registered services that can be given where a `T` is
+ * expected, e.g. as the argument of a constructor.
+ */
+type ServiceName<Services, T> = { [Name in keyof Services]: Services[Name] extends T ? Name : never }[keyof Services];
+
+type ServiceNames<Services, Args extends unknown[]> = { [Index in keyof Args]: ServiceName<Services, Args[Index]> };
+
+class ContainerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContainerError';
+  }
+}
+
+/**
+ * Thrown when services depend on each other. The path shows the whole cycle,
+ * e.g. `a -> b -> a`.
+ */
+class CircularDependencyError extends ContainerError {
+  constructor(public readonly path: string[]) {
+    super(`Circular dependency: ${path.join(' -> ')}`);
+    this.name = 'CircularDependencyError';
+  }
+}
+
+/**
+ * The creation of a service instance, and the other creations it is waiting
+ * for while it is not settled.
+ */
+interface Creation {
+  name: string;
+  promise: Promise<unknown>;
+  settled: boolean;
+  waitsFor: Set<Creation>;
+}
+
+class Container<Services extends Record<string, unknown> = {}> {
+  /**
+   * The creations of the singleton services (in the root container) or of the
+   * scoped services (in a scope). Creations are kept while they are pending,
+   * so the services resolved at the same time are still created once.
+   */
+  private instances = new Map<string, Creation>();
+
+  constructor(
+    private readonly root: Container<Services> = null,
+    private readonly registrations = new Map<string, Registration>(),
+  ) {}
+
+  /**
+   * Registers a service made by a factory. The factory can be async, and
+   * receives a function to resolve the services it depends on. Every call
+   * returns the container with a type that knows about the new service.
+   */
+  public register<Name extends string, T>(
+    name: Name,
+    factory: (resolve: Resolver<Services>) => T | Promise<T>,
+    lifetime: Lifetime = 'singleton',
+  ): Container<Services & { [Key in Name]: T }> {
+    if (this.root !== null) {
+      throw new ContainerError(`Register ${name} on the root container, not on a scope`);
+    }
+
+    this.registrations.set(name, { lifetime, factory });
+
+    return this as Container<any>;
+  }
+
+  /**
+   * Registers a class whose constructor arguments are the given services, in
+   * order. Only the services whose types match the arguments are accepted.
+   */
+  public registerClass<Name extends string, Args extends unknown[], T>(
+    name: Name,
+    Class: new (...args: Args) => T,
+    dependencies: ServiceNames<Services, Args>,
+    lifetime: Lifetime = 'singleton',
+  ): Container<Services & { [Key in Name]: T }> {
+    return this.register(name, async resolve => {
+      const args = await Promise.all((dependencies as string[]).map(dependency => resolve(dependency)));
+
+      return new Class(...args as Args);
+    }, lifetime);
+  }
+
+  /**
+   * Creates a scope that shares the registrations and the singletons of this
+   * container, and has its own instances of the scoped services.
+   */
+  public createScope(): Container<Services> {
+    return new Container(this.root ?? this, this.registrations);
+  }
+
+  public resolve<Name extends keyof Services & string>(name: Name): Promise<Services[Name]> {
+    return this.resolvePath(name, [], null) as Promise<Services[Name]>;
+  }
+
+  /**
+   * Resolves a service that the services of `path` are waiting for, the last
+   * of which is being created by `parent`. The path is passed along instead
+   * of kept in the container, so that services resolved at the same time do
+   * not mix up their paths.
+   */
+  private resolvePath(name: string, path: string[], parent: Creation): Promise<unknown> {
+    if (path.includes(name)) {
+      return Promise.reject(new CircularDependencyError([...path, name]));
+    }
+
+    const registration = this.registrations.get(name);
+
+    if (registration === undefined) {
+      return Promise.reject(new ContainerError(`${[...path, name].join(' -> ')}: ${name} is not registered`));
+    }
+
+    if (registration.lifetime === 'scoped' && this.root === null) {
+      return Promise.reject(new ContainerError(`${name} is scoped and can only be resolved from a scope`));
+    }
+
+    // Singletons resolve their dependencies from the root container, so they
+    // never hold on to the scoped services of a single scope.
+    const owner = registration.lifetime === 'singleton' ? this.root ?? this : this;
+    let creation = registration.lifetime === 'transient' ? undefined : owner.instances.get(name);
+
+    // A pending creation started by another resolve may already be waiting,
+    // directly or not, for the parent. Waiting for it would never end.
+    if (creation && parent && !creation.settled) {
+      const cycle = this.waitingPath(creation, parent);
+
+      if (cycle) {
+        return Promise.reject(new CircularDependencyError([...path, ...cycle.map(({ name }) => name)]));
+      }
+    }
+
+    if (!creation) {
+      creation = owner.create(name, registration, path);
+
+      if (registration.lifetime !== 'transient') {
+        const created = creation;
+        owner.instances.set(name, created);
+
+        // A failed creation is not kept, so the next resolve tries again
+        created.promise.catch(() => owner.instances.get(name) === created && owner.instances.delete(name));
+      }
+    }
+
+    parent?.waitsFor.add(creation);
+
+    return creation.promise;
+  }
+
+  private create(name: string, registration: Registration, path: string[]): Creation {
+    const creation: Creation = { name, promise: null, settled: false, waitsFor: new Set() };
+    const settle = () => {
+      creation.settled = true;
+      creation.waitsFor.clear();
+    };
+
+    creation.promise = Promise.resolve().then(() => registration.factory(
+      dependency => this.resolvePath(dependency, [...path, name], creation),
+    ));
+    creation.promise.then(settle, settle);
+
+    return creation;
+  }
+
+  /**
+   * The creations from `from` to `to`, following what each pending creation
+   * is waiting for, or null when `from` does not wait for `to`.
+   */
+  private waitingPath(from: Creation, to: Creation, seen = new Set<Creation>()): Creation[] {
+    if (from === to) {
+      return [from];
+    }
+
+    if (from.settled || seen.has(from)) {
+      return null;
+    }
+
+    seen.add(from);
+
+    for (const next of from.waitsFor) {
+      const rest = this.waitingPath(next, to, seen);
+
+      if (rest) {
+        return [from, ...rest];
+      }
+    }
+
+    return null;
   }
 }
 
@@ -95,3 +930,119 @@ const config2 = Config.getInstance();
 
 // Checking whether the instances are the same:
 console.log(config === config2); // true
+
+// Values have the types declared in the schema. Nested values are read with
+// dotted keys, and the default is returned when the key is not configured:
+const locale: 'en' | 'fa' = config2.get('app_locale');
+const port: number = config2.get('db_port');
+console.log(locale, port); // fa 3306
+console.log(config2.get('sms.driver')); // log
+console.log(config2.get('db_password', 'secret')); // secret
+
+// Unknown keys and invalid values are refused:
+// config2.set('db_prot', 3307); // Does not compile
+try {
+  config2.set('db_port', Number('not a port'));
+} catch (error) {
+  console.log(error.message); // Invalid configuration: db_port must be a number, got NaN
+}
+
+// Subscribers pick up new values without restarting the process. For example,
+// the client of the query builders can pick another builder when `db_driver`
+// changes, and the SMS facade can drop its cached driver when `sms.driver`
+// changes:
+const stopListening = config2.onChange('db_driver', ({ previous, current }) => {
+  console.log(`Switching the query builder from ${previous} to ${current}`);
+});
+config2.set('db_driver', 'postgres'); // Switching the query builder from mysql to postgres
+stopListening();
+
+// Reloading reads the sources again and reports the values that differ. Here
+// `app_locale` goes back from the value given to `set` to the loaded one:
+config2.onChange('app_locale', change => console.log(change)); // { key: 'app_locale', previous: 'fa', current: 'en' }
+config2.reload();
+
+// Watching reloads the configuration whenever a config file changes. A server
+// keeps watching while it runs; this example stops at once so it can exit.
+const stopWatching = config2.watch();
+stopWatching();
+
+// Tests can change values for a single scope, including the asynchronous work
+// it starts, without leaking them into the next tests:
+Config.withOverrides({ app_locale: 'fa', db_port: 5432 }, () => {
+  console.log(Config.getInstance().get('app_locale')); // fa
+});
+console.log(Config.getInstance().get('app_locale')); // en
+
+// An isolated instance, e.g. to be injected into a class under test, does not
+// share its values with `getInstance`:
+const isolated = Config.create({ directory: '/nonexistent', environment: { CONFIG__DB_PORT: '5433' } });
+console.log(isolated.get('db_port'), config2.get('db_port')); // 5433 3306
+
+// And the shared instance can be dropped between tests:
+Config.resetInstance();
+console.log(Config.getInstance() === config2); // false
+
+// The temporary values follow the asynchronous work of the scope:
+config2.withOverrides({ db_driver: 'sqlite' }, async () => {
+  await new Promise(resolve => setTimeout(resolve, 10));
+  console.log(config2.get('db_driver')); // sqlite
+});
+
+// Small stand-ins for the SMS library of facade.ts and the query builders of
+// builder.ts, since every pattern lives in its own file. They get the config
+// from the container instead of reaching for static state.
+class SmsLibrary {
+  constructor(private config: Config) {}
+
+  public send(recipient: string, message: string) {
+    console.log(`[${this.config.get('sms.driver')}] ${recipient}: ${message}`);
+  }
+}
+
+class QueryBuilders {
+  constructor(private config: Config, private connection: { id: number }) {}
+
+  public make() {
+    return `${this.config.get('db_driver')} query builder on connection ${this.connection.id}`;
+  }
+}
+
+class Request {
+  private static count = 0;
+  public readonly id = ++Request.count;
+}
+
+(async () => {
+  let connections = 0;
+
+  const container = new Container()
+    .register('config', () => Config.create())
+    // Async factories can prepare a service before it is used:
+    .register('connection', async resolve => {
+      const config = await resolve('config');
+      await new Promise(done => setTimeout(done, 10)); // Connecting to config.get('db_host')...
+      return { id: ++connections, host: config.get('db_host') };
+    })
+    .registerClass('sms', SmsLibrary, ['config'])
+    .registerClass('request', Request, [], 'scoped')
+    .registerClass('queryBuilders', QueryBuilders, ['config', 'connection'], 'transient');
+
+  (await container.resolve('sms')).send('+989121234567', 'Hello');          // [log] +989121234567: Hello
+  console.log((await container.resolve('queryBuilders')).make());            // mysql query builder on connection 1
+  console.log(await container.resolve('config') === await container.resolve('config')); // true
+
+  // Every scope has its own scoped services:
+  const [first, second] = [container.createScope(), container.createScope()];
+  console.log((await first.resolve('request')).id, (await first.resolve('request')).id); // 1 1
+  console.log((await second.resolve('request')).id); // 2
+
+  // Services that depend on each other are reported with the whole cycle. The
+  // types only let a factory resolve the services registered before it, so
+  // building a cycle takes a cast:
+  const circular = new Container()
+    .register('a', resolve => (resolve as Resolver<{ b: unknown }>)('b'))
+    .register('b', resolve => resolve('a'));
+
+  await circular.resolve('a').catch(error => console.log(error.message)); // Circular dependency: a -> b -> a
+})();